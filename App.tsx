@@ -2,9 +2,15 @@
 /// <reference types="chrome" />
 
 import React, { useState, useEffect } from 'react';
-import type { Lead } from './types';
+import type { ContactBudgetStatus, ContactQueueSummary, ExtractionHealth, FeedStats, Lead, ProfileStats, WorkingWindow } from './types';
 import { LeadCard } from './components/LeadCard';
 import { LogsPanel } from './components/LogsPanel';
+import { FilterEditor } from './components/FilterEditor';
+import { SelectorPackEditor } from './components/SelectorPackEditor';
+import { AgentSettingsEditor } from './components/AgentSettingsEditor';
+import { ReplyTemplatesEditor } from './components/ReplyTemplatesEditor';
+import { DeadLetterList } from './components/DeadLetterList';
+import { formatWorkingWindow } from './lib/workingHours';
 
 enum AppState {
   Idle,
@@ -15,9 +21,14 @@ enum AppState {
 }
 
 interface AutoContactStats {
+  /** Confirmed contacts only. */
   totalContacted: number;
+  /** Replies sent that IndiaMART never confirmed. */
+  totalUnconfirmed?: number;
   totalFiltered: number;
   sessionStartTime: number;
+  byProfile?: Record<string, ProfileStats>;
+  byFeed?: Record<string, FeedStats>;
 }
 
 const App: React.FC = () => {
@@ -37,18 +48,23 @@ const App: React.FC = () => {
   const [agentInitialized, setAgentInitialized] = useState(false);
   const agentStoppedRef = React.useRef(false);
   const [showLogs, setShowLogs] = useState(false);
+  const [contactQueue, setContactQueue] = useState<ContactQueueSummary>({ pending: 0 });
+  const [contactBudget, setContactBudget] = useState<ContactBudgetStatus | null>(null);
+  const [workingHours, setWorkingHours] = useState<WorkingWindow | null>(null);
+  const [extractionHealth, setExtractionHealth] = useState<ExtractionHealth | null>(null);
+  const [extractionPausedReason, setExtractionPausedReason] = useState<string | null>(null);
+  const [showSelectors, setShowSelectors] = useState(false);
+  const [showAgentSettings, setShowAgentSettings] = useState(false);
+  const [showReplyTemplates, setShowReplyTemplates] = useState(false);
+  const [showDeadLetters, setShowDeadLetters] = useState(false);
 
   const sortedLeads = React.useMemo(() => {
     const arr = [...leads];
     if (arr.length === 0) return arr;
     switch (sortBy) {
       case 'time': {
-        const toTime = (t?: string) => {
-          if (!t) return 0;
-          const d = new Date(t);
-          return isNaN(d.getTime()) ? 0 : d.getTime();
-        };
-        return arr.sort((a, b) => toTime(b.timestamp) - toTime(a.timestamp));
+        // Leads whose date couldn't be parsed sort last
+        return arr.sort((a, b) => (b.postedAt ?? 0) - (a.postedAt ?? 0));
       }
       case 'company':
         return arr.sort((a, b) => (a.companyName || '').localeCompare(b.companyName || ''));
@@ -57,6 +73,21 @@ const App: React.FC = () => {
     }
   }, [leads, sortBy]);
 
+  // Filtered counts come from the live batch; contacted counts from the background's session stats
+  const profileBreakdown = React.useMemo(() => {
+    const rows = new Map<string, ProfileStats>();
+    Object.entries(autoContactStats.byProfile || {}).forEach(([id, stats]) => {
+      rows.set(id, { ...stats, filtered: 0 });
+    });
+    filteredLeads.forEach((lead) => {
+      if (!lead.profileId) return;
+      const row = rows.get(lead.profileId) || { profileName: lead.profileName || lead.profileId, filtered: 0, contacted: 0 };
+      row.filtered += 1;
+      rows.set(lead.profileId, row);
+    });
+    return Array.from(rows.values());
+  }, [filteredLeads, autoContactStats.byProfile]);
+
   useEffect(() => {
     // Ensure this code runs only within a Chrome extension context
     if (typeof chrome !== 'undefined' && chrome.runtime && chrome.runtime.onMessage) {
@@ -65,6 +96,14 @@ const App: React.FC = () => {
           return;
         }
 
+        if (response.queue) {
+          setContactQueue(response.queue);
+        }
+        setContactBudget(response.budget || null);
+        setWorkingHours(response.workingHours || null);
+        setExtractionHealth(response.extractionHealth || null);
+        setExtractionPausedReason(response.extractionPausedReason || null);
+
         if (response.agentStopped) {
           setAgentStopped(true);
           agentStoppedRef.current = true;
@@ -84,6 +123,9 @@ const App: React.FC = () => {
             ...prev,
             totalFiltered: response.leadsPayload.filteredLeads?.length || prev.totalFiltered,
             totalContacted: response.statistics?.totalContacted || prev.totalContacted,
+            totalUnconfirmed: response.statistics?.totalUnconfirmed ?? prev.totalUnconfirmed,
+            byProfile: response.statistics?.byProfile || prev.byProfile,
+            byFeed: response.statistics?.byFeed || prev.byFeed,
           }));
           setAgentStopped(Boolean(response.agentStopped));
           agentStoppedRef.current = Boolean(response.agentStopped);
@@ -133,9 +175,23 @@ const App: React.FC = () => {
             // Update stats when a lead is contacted
             setAutoContactStats(prev => ({
               ...prev,
-              totalContacted: message.statistics?.totalContacted || prev.totalContacted + 1
+              totalContacted: message.statistics?.totalContacted || prev.totalContacted + 1,
+              totalUnconfirmed: message.statistics?.totalUnconfirmed ?? prev.totalUnconfirmed,
+              byProfile: message.statistics?.byProfile || prev.byProfile,
+              byFeed: message.statistics?.byFeed || prev.byFeed
             }));
           }
+        } else if (message.type === 'CONTACT_QUEUE_UPDATE') {
+          if (message.queue) {
+            setContactQueue(message.queue);
+          }
+        } else if (message.type === 'WORKING_HOURS_UPDATE') {
+          setWorkingHours(message.workingHours || null);
+        } else if (message.type === 'CONTACT_BUDGET_UPDATE') {
+          setContactBudget(message.budget || null);
+        } else if (message.type === 'EXTRACTION_HEALTH_UPDATE') {
+          setExtractionHealth(message.health || null);
+          setExtractionPausedReason(message.pausedReason || null);
         } else if (message.type === 'SCRAPING_ERROR') {
             setError(message.error);
             setAppState(AppState.Error);
@@ -298,6 +354,74 @@ const App: React.FC = () => {
                        <span>Auto-Contacted:</span>
                        <span className="text-blue-400 font-bold">{autoContactStats.totalContacted} / {autoContactStats.totalFiltered}</span>
                      </div>
+                     {contactBudget && (
+                       <div className="flex justify-between text-slate-400" title="Replies sent today and in the last hour, against the caps in Agent Settings">
+                         <span>Contact Budget:</span>
+                         <span className="text-slate-300">
+                           {contactBudget.contactsToday}
+                           {contactBudget.maxContactsPerDay > 0 && `/${contactBudget.maxContactsPerDay}`} today,{' '}
+                           {contactBudget.contactsLastHour}
+                           {contactBudget.maxContactsPerHour > 0 && `/${contactBudget.maxContactsPerHour}`} last hour
+                           {contactBudget.credits && `, ${contactBudget.credits.credits} credits`}
+                         </span>
+                       </div>
+                     )}
+                     {contactBudget?.pausedReason && (
+                       <div className="text-red-400">
+                         Contacting paused: {contactBudget.pausedReason}
+                         {contactBudget.resumesAt !== undefined && ` (resumes ${new Date(contactBudget.resumesAt).toLocaleTimeString()})`}
+                       </div>
+                     )}
+                     {Object.values(contactBudget?.byProfile || {})
+                       .filter((row) => row.contactsToday >= row.cap)
+                       .map((row) => (
+                         <div key={row.profileName} className="text-amber-400 pl-3">
+                           {row.profileName}: daily cap of {row.cap} reached, its leads wait until tomorrow
+                         </div>
+                       ))}
+                     {(autoContactStats.totalUnconfirmed ?? 0) > 0 && (
+                       <div className="flex justify-between text-slate-400" title="Replies sent without a confirmation from IndiaMART; see Show events in the logs">
+                         <span>Unconfirmed:</span>
+                         <span className="text-amber-400 font-bold">{autoContactStats.totalUnconfirmed}</span>
+                       </div>
+                     )}
+                     {profileBreakdown.length > 1 && profileBreakdown.map((row) => (
+                       <div key={row.profileName} className="flex justify-between text-slate-500 pl-3">
+                         <span>{row.profileName}:</span>
+                         <span>{row.contacted} contacted / {row.filtered} filtered</span>
+                       </div>
+                     ))}
+                     {Object.keys(autoContactStats.byFeed || {}).length > 1 && (
+                       <>
+                         <div className="text-slate-400">By feed:</div>
+                         {Object.entries(autoContactStats.byFeed || {}).map(([feedId, row]) => (
+                           <div key={feedId} className="flex justify-between text-slate-500 pl-3">
+                             <span>{row.label}:</span>
+                             <span>{row.qualified} qualified / {row.seen} seen, {row.contacted} contacted</span>
+                           </div>
+                         ))}
+                       </>
+                     )}
+                     <div className="flex justify-between text-slate-400">
+                       <span>Queued Contacts:</span>
+                       <span className="text-slate-300">
+                         {contactQueue.pending}
+                         {contactQueue.nextDueAt !== undefined &&
+                           ` (next in ${Math.max(0, Math.ceil((contactQueue.nextDueAt - Date.now()) / 60000))} min)`}
+                       </span>
+                     </div>
+                     {(contactQueue.deadLetters ?? 0) > 0 && (
+                       <>
+                         <button
+                           onClick={() => setShowDeadLetters(!showDeadLetters)}
+                           className="w-full flex justify-between text-red-400 hover:text-red-300"
+                         >
+                           <span>{showDeadLetters ? '▼' : '▶'} Failed Contacts:</span>
+                           <span className="font-bold">{contactQueue.deadLetters}</span>
+                         </button>
+                         {showDeadLetters && <DeadLetterList count={contactQueue.deadLetters ?? 0} />}
+                       </>
+                     )}
                      <div className="flex justify-between text-slate-400">
                        <span>Session Duration:</span>
                        <span className="text-slate-300">
@@ -307,13 +431,21 @@ const App: React.FC = () => {
                      <div className="flex justify-between text-slate-400">
                        <span>Refresh Status:</span>
                        <span className="text-yellow-400">
-                         {filteredLeads.length === 0 ? 'In 5 min (no leads)' : 
+                         {workingHours && !workingHours.open ? `Outside working hours, next window ${formatWorkingWindow(workingHours)}` :
+                          filteredLeads.length === 0 ? 'In 5 min (no leads)' : 
                           autoContactStats.totalContacted >= autoContactStats.totalFiltered ? 'After all contacts' : 'Active'}
+                         {workingHours?.open && workingHours.closesAt !== undefined && ` (${formatWorkingWindow(workingHours)})`}
                        </span>
                      </div>
                    </div>
                  )}
                  
+                 {extractionPausedReason && !agentStopped && (
+                   <div className="mt-2 p-2 bg-red-900/20 rounded text-xs text-red-400">
+                     ⚠️ Auto-contact paused: lead fields are missing after a scrape. Check "Selectors &amp; Extraction Health".
+                   </div>
+                 )}
+
                  {agentStopped && (
                    <div className="mt-2 p-2 bg-red-900/20 rounded text-xs text-red-400 text-center">
                      Agent Stopped - Click "Start Agent" to resume
@@ -329,15 +461,34 @@ const App: React.FC = () => {
                  {showFilterDetails ? '▼' : '▶'} View Filter Criteria
                </button>
                
-               {showFilterDetails && (
-                 <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-1 text-slate-400">
-                   <div>✓ Keywords: Uniform, Blazers, Jackets, etc.</div>
-                   <div>✓ Excluded: Delhi, Mumbai, Gurgaon, Ahmedabad, Surat, Thane</div>
-                   <div>✓ Quantity: {'>'} 100 units</div>
-                   <div>✓ Order Value: {'>'} ₹50,000</div>
-                   <div>✓ Categories: School/Corporate/Hospital Uniforms</div>
-                 </div>
-               )}
+               {showFilterDetails && <FilterEditor />}
+
+               <button
+                 onClick={() => setShowSelectors(!showSelectors)}
+                 className={`w-full mt-1 text-xs transition-colors ${extractionHealth && !extractionHealth.healthy ? 'text-red-400 hover:text-red-300' : 'text-slate-400 hover:text-slate-300'}`}
+               >
+                 {showSelectors ? '▼' : '▶'} Selectors &amp; Extraction Health
+               </button>
+
+               {showSelectors && <SelectorPackEditor health={extractionHealth} pausedReason={extractionPausedReason} />}
+
+               <button
+                 onClick={() => setShowAgentSettings(!showAgentSettings)}
+                 className="w-full mt-1 text-xs text-slate-400 hover:text-slate-300 transition-colors"
+               >
+                 {showAgentSettings ? '▼' : '▶'} Agent Settings
+               </button>
+
+               {showAgentSettings && <AgentSettingsEditor />}
+
+               <button
+                 onClick={() => setShowReplyTemplates(!showReplyTemplates)}
+                 className="w-full mt-1 text-xs text-slate-400 hover:text-slate-300 transition-colors"
+               >
+                 {showReplyTemplates ? '▼' : '▶'} Reply Templates
+               </button>
+
+               {showReplyTemplates && <ReplyTemplatesEditor />}
                
                <div className="mt-3">
                  <label className="block text-sm text-slate-300 mb-1">Sort by</label>
@@ -1,7 +1,28 @@
 // Fix: Added a triple-slash directive to include TypeScript types for the Chrome extension API.
 /// <reference types="chrome" />
 
-import type { Lead } from './types';
+import type {
+  AgentSettings,
+  ContactBudgetStatus,
+  ContactFailureReason,
+  ContactOutcome,
+  ContactQueueEntry,
+  ContactQueueSummary,
+  CreditBalance,
+  ExtractionHealth,
+  FeedStats,
+  Lead,
+  ProfileStats,
+  WorkingWindow,
+} from './types';
+import { EXTRACTION_HEALTH_KEY, formatDegradedFields } from './lib/extractionHealth';
+import { AGENT_SETTINGS_KEY, DEFAULT_AGENT_SETTINGS, loadAgentSettings, validateAgentSettings } from './lib/agentSettings';
+import { BLTXN_URL_PATTERN, UNLISTED_FEED_ID, UNLISTED_FEED_LABEL, matchFeed, nextFeed } from './lib/feeds';
+import { buildReply, loadReplyTemplates } from './lib/replyTemplates';
+import { CONTACT_FAILURE_LABELS, nextRetryAt } from './lib/contactRetry';
+import { CREDIT_BALANCE_KEY, evaluateContactBudget, profileCapReached } from './lib/contactBudget';
+import { loadFilterProfiles } from './lib/filterConfig';
+import { formatWorkingWindow, startOfNextZonedDay, workingWindow } from './lib/workingHours';
 
 // Store auto-contact state
 let autoContactState = {
@@ -10,11 +31,16 @@ let autoContactState = {
   processedLeads: new Set<string>(),
   lastContactTime: 0,
   statistics: {
-    totalContacted: 0,
+    totalContacted: 0, // confirmed contacts only
+    totalUnconfirmed: 0,
     totalFiltered: 0,
-    sessionStartTime: Date.now()
+    sessionStartTime: Date.now(),
+    byProfile: {} as Record<string, ProfileStats>,
+    byFeed: {} as Record<string, FeedStats>
   }
 };
+// Distinct leads behind the per-feed seen/qualified counts (a feed is scraped many times per session)
+let feedLeadIds: Record<string, { seen: Set<string>; qualified: Set<string> }> = {};
 
 let agentActive = false;
 let latestLeadsPayload: { allLeads: Lead[]; filteredLeads: Lead[]; autoContactEnabled?: boolean } | null = null;
@@ -25,6 +51,71 @@ const MAX_LOG_LINES = 1000;
 const DIAGNOSTICS_ENABLED = false; // default off for main logs cleanliness
 let lastInactivityNotify = 0;
 
+// Agent lifecycle: persisted so a service-worker restart or page reload can re-attach
+const AGENT_STATE_KEY = 'indiamart_agent_state';
+const EVENTS_KEY = 'indiamart_events'; // agent lifecycle events shown in the logs panel
+const MAX_EVENTS = 200;
+const FEED_ROTATION_ALARM = 'rotateLeadFeed';
+const FEED_ROTATION_JITTER = 0.2; // up to 20% longer on a feed, so switches don't land on a fixed beat
+let agentStarted = false; // true between START_AGENT and STOP_AGENT
+let agentTabId: number | null = null;
+// Set while scraped fields are mostly missing (markup changed); queued contacts wait until a healthy scrape
+let extractionPausedReason: string | null = null;
+let agentSettings: AgentSettings = DEFAULT_AGENT_SETTINGS;
+
+interface PersistedAgentState {
+  started: boolean;
+  enabled: boolean;
+  stopped: boolean;
+  tabId: number | null;
+  extractionPausedReason?: string | null;
+}
+
+const persistAgentState = async (): Promise<void> => {
+  try {
+    const state: PersistedAgentState = {
+      started: agentStarted,
+      enabled: autoContactState.enabled,
+      stopped: autoContactState.stopped,
+      tabId: agentTabId,
+      extractionPausedReason,
+    };
+    await chrome.storage.local.set({ [AGENT_STATE_KEY]: state });
+  } catch (error) {
+    console.error('[Background] Error saving agent state:', error);
+  }
+};
+
+// Restore lifecycle state once per service-worker start; listeners await this before acting
+const agentStateRestored: Promise<void> = (async () => {
+  try {
+    const result = await chrome.storage.local.get(AGENT_STATE_KEY);
+    const saved: PersistedAgentState | undefined = result[AGENT_STATE_KEY];
+    if (saved) {
+      agentStarted = Boolean(saved.started);
+      autoContactState.enabled = Boolean(saved.enabled);
+      autoContactState.stopped = Boolean(saved.stopped);
+      agentTabId = typeof saved.tabId === 'number' ? saved.tabId : null;
+      extractionPausedReason = saved.extractionPausedReason || null;
+      console.log('[Background] Restored agent state:', saved);
+    }
+  } catch (error) {
+    console.error('[Background] Error restoring agent state:', error);
+  }
+})();
+
+// Append a single line to the lifecycle events log (separate from filtering summaries)
+const appendEventLog = async (message: string): Promise<void> => {
+  try {
+    const result = await chrome.storage.local.get(EVENTS_KEY);
+    const existing: string[] = Array.isArray(result[EVENTS_KEY]) ? result[EVENTS_KEY] : [];
+    const entry = `[${new Date().toISOString()}] [Background] ${message}`;
+    await chrome.storage.local.set({ [EVENTS_KEY]: [...existing, entry].slice(-MAX_EVENTS) });
+  } catch (error) {
+    console.error('[Background] Error saving event log:', error);
+  }
+};
+
 const setBadge = (text: string, title: string, color: string) => {
   try {
     chrome.action?.setBadgeText({ text });
@@ -108,6 +199,14 @@ const clearLogProcessingAlarm = () => {
 
 // Listen for alarm events (Heartbeat - keeps service worker alive)
 chrome.alarms.onAlarm.addListener((alarm) => {
+  if (alarm.name === CONTACT_QUEUE_ALARM) {
+    processContactQueue();
+    return;
+  }
+  if (alarm.name === FEED_ROTATION_ALARM) {
+    rotateLeadFeed();
+    return;
+  }
   if (alarm.name === 'processLeadsForLogs') {
     // Heartbeat alarm fires - keeps service worker alive
     if (autoContactState.enabled && !autoContactState.stopped) {
@@ -183,10 +282,612 @@ const sendMessageSafe = (message: unknown) => {
   }
 };
 
+// Persistent contact queue: qualified leads wait here (in chrome.storage) until due,
+// so the page's own refreshes and service-worker restarts don't drop scheduled contacts.
+const CONTACT_QUEUE_KEY = 'indiamart_contact_queue';
+const CONTACT_QUEUE_ALARM = 'processContactQueue';
+// Wait BEFORE contacting (5–15 minutes, shorter for higher scores), then send immediately
+const PRE_CONTACT_DELAY_MIN = 5 * 60 * 1000; // 5 minutes
+const PRE_CONTACT_DELAY_MAX = 15 * 60 * 1000; // 15 minutes
+const PRE_CONTACT_JITTER = 0.2; // ±20% so equal scores don't produce a mechanical cadence
+const MIN_CONTACT_SPACING = 60 * 1000; // never contact two leads less than a minute apart
+const QUEUE_RETRY_DELAY = 60 * 1000; // agent tab unavailable: try again in a minute
+const MAX_FINISHED_ENTRIES = 500; // done/failed entries kept for de-duplication
+const MAX_DEAD_LETTERS = 100; // oldest dead letters beyond this are dropped
+const BUDGET_RECHECK_DELAY = 10 * 60 * 1000; // credits low: look again after a few more header readings
+
+let queueLock: Promise<unknown> = Promise.resolve();
+
+// Serialize read-modify-write cycles on the stored queue
+const withContactQueue = <T>(fn: (queue: ContactQueueEntry[]) => Promise<T> | T): Promise<T> => {
+  const run = queueLock.then(async () => {
+    const result = await chrome.storage.local.get(CONTACT_QUEUE_KEY);
+    const queue: ContactQueueEntry[] = Array.isArray(result[CONTACT_QUEUE_KEY]) ? result[CONTACT_QUEUE_KEY] : [];
+    const value = await fn(queue);
+    const pending = queue.filter((entry) => entry.status === 'pending' || entry.status === 'in_progress');
+    const finished = queue.filter((entry) => entry.status === 'done' || entry.status === 'failed').slice(-MAX_FINISHED_ENTRIES);
+    const deadLetters = queue.filter((entry) => entry.status === 'dead_letter').slice(-MAX_DEAD_LETTERS);
+    await chrome.storage.local.set({ [CONTACT_QUEUE_KEY]: [...finished, ...deadLetters, ...pending] });
+    return value;
+  });
+  queueLock = run.catch(() => undefined);
+  return run;
+};
+
+const readContactQueue = (): Promise<ContactQueueEntry[]> =>
+  queueLock.then(async () => {
+    const result = await chrome.storage.local.get(CONTACT_QUEUE_KEY);
+    return Array.isArray(result[CONTACT_QUEUE_KEY]) ? result[CONTACT_QUEUE_KEY] : [];
+  });
+
+const summarizeContactQueue = (queue: ContactQueueEntry[]): ContactQueueSummary => {
+  const pending = queue.filter((entry) => entry.status === 'pending');
+  const earliest = pending.length ? Math.min(...pending.map((entry) => entry.dueAt)) : undefined;
+  // Outside working hours nothing goes out before the next window opens
+  const { open, opensAt } = workingWindow(agentSettings.workingHours);
+  const nextDueAt = earliest === undefined || open ? earliest : Math.max(earliest, opensAt ?? earliest + BUDGET_RECHECK_DELAY);
+  return { pending: pending.length, nextDueAt, deadLetters: queue.filter((entry) => entry.status === 'dead_letter').length };
+};
+
+// Point the queue alarm at the earliest pending entry and tell the popup
+const scheduleContactQueueAlarm = async (queue: ContactQueueEntry[]): Promise<void> => {
+  const summary = summarizeContactQueue(queue);
+  if (summary.nextDueAt === undefined || !autoContactState.enabled || autoContactState.stopped || extractionPausedReason) {
+    await chrome.alarms.clear(CONTACT_QUEUE_ALARM);
+  } else {
+    chrome.alarms.create(CONTACT_QUEUE_ALARM, { when: Math.max(summary.nextDueAt, Date.now() + 1000) });
+  }
+  sendMessageSafe({ type: 'CONTACT_QUEUE_UPDATE', queue: summary });
+};
+
+// Score 100 waits the minimum, score 0 the maximum
+const preContactDelayForScore = (score = 0): number => {
+  const base = PRE_CONTACT_DELAY_MIN + (1 - Math.min(100, Math.max(0, score)) / 100) * (PRE_CONTACT_DELAY_MAX - PRE_CONTACT_DELAY_MIN);
+  const jitter = 1 + (Math.random() * 2 - 1) * PRE_CONTACT_JITTER;
+  return Math.min(PRE_CONTACT_DELAY_MAX, Math.max(PRE_CONTACT_DELAY_MIN, base * jitter));
+};
+
+const compareByScore = (a: ContactQueueEntry, b: ContactQueueEntry) => (b.lead.score ?? 0) - (a.lead.score ?? 0);
+
+// Returns the leads queued now and those the queue already had (or that were already contacted)
+const enqueueContacts = (leads: Lead[]): Promise<{ queuedIds: string[]; knownIds: string[] }> =>
+  withContactQueue(async (queue) => {
+    const known = new Set(queue.map((entry) => entry.leadId));
+    const now = Date.now();
+    let lastDueAt = Math.max(now, ...queue.filter((entry) => entry.status === 'pending').map((entry) => entry.dueAt));
+    const queuedIds: string[] = [];
+    const knownIds: string[] = [];
+
+    [...leads].sort((a, b) => (b.score ?? 0) - (a.score ?? 0)).forEach((lead) => {
+      if (known.has(lead.leadId) || autoContactState.processedLeads.has(lead.leadId)) {
+        knownIds.push(lead.leadId);
+        return;
+      }
+      const preDelay = preContactDelayForScore(lead.score);
+      const dueAt = Math.max(now + preDelay, lastDueAt + MIN_CONTACT_SPACING);
+      lastDueAt = dueAt;
+      // The per-rule trace is for the popup only; keep stored queue entries small
+      const { filterTrace: _trace, ...snapshot } = lead;
+      queue.push({ leadId: lead.leadId, dueAt, attempts: 0, status: 'pending', enqueuedAt: now, lead: snapshot });
+      known.add(lead.leadId);
+      queuedIds.push(lead.leadId);
+    });
+
+    if (queuedIds.length > 0) {
+      appendEventLog(`Queued ${queuedIds.length} lead(s) for contact.`);
+    }
+    await scheduleContactQueueAlarm(queue);
+    return { queuedIds, knownIds };
+  });
+
+// Only the agent's own tab, and only while it is on a Buy Leads page; other Buy Leads tabs are the user's
+const findAgentTabId = async (): Promise<number | null> => {
+  if (agentTabId === null) return null;
+  try {
+    const tab = await chrome.tabs.get(agentTabId);
+    return tab.url && BLTXN_URL_PATTERN.test(tab.url) ? agentTabId : null;
+  } catch {
+    return null;
+  }
+};
+
+// Brings the agent back to a Buy Leads page when it has work but no tab there: the agent tab is sent
+// back to the start feed if it navigated away, or a new tab is opened if it was closed. The tabs.onUpdated
+// listener attaches once the page loads.
+const reopenAgentTab = async (): Promise<void> => {
+  if (!agentStarted || autoContactState.stopped) return;
+  const startUrl = nextFeed(agentSettings.feeds, undefined)?.url || DEFAULT_AGENT_SETTINGS.feeds[0].url;
+  if (agentTabId !== null) {
+    const tab = await chrome.tabs.get(agentTabId).catch(() => null);
+    if (tab) {
+      if (!(tab.pendingUrl && BLTXN_URL_PATTERN.test(tab.pendingUrl))) {
+        appendEventLog(`Agent tab ${agentTabId} left the Buy Leads page; sending it back.`);
+        await chrome.tabs.update(agentTabId, { url: startUrl });
+      }
+      return;
+    }
+  }
+  const tab = await chrome.tabs.create({ url: startUrl, active: false });
+  if (tab.id === undefined) return;
+  agentTabId = tab.id;
+  persistAgentState();
+  appendEventLog(`Agent tab was closed; opened the Buy Leads page in tab ${tab.id}.`);
+};
+
+// Lead feeds: the agent tab visits each enabled feed in turn; yield is tracked per feed
+const feedStatsFor = (lead: Lead): FeedStats => {
+  const feedId = lead.sourceFeedId || UNLISTED_FEED_ID;
+  const byFeed = autoContactState.statistics.byFeed;
+  byFeed[feedId] = byFeed[feedId] || { label: lead.sourceFeedLabel || UNLISTED_FEED_LABEL, seen: 0, qualified: 0, contacted: 0 };
+  return byFeed[feedId];
+};
+
+const recordFeedYield = (leads: Lead[]) => {
+  leads.forEach((lead) => {
+    const feedId = lead.sourceFeedId || UNLISTED_FEED_ID;
+    const ids = feedLeadIds[feedId] || (feedLeadIds[feedId] = { seen: new Set(), qualified: new Set() });
+    ids.seen.add(lead.leadId);
+    if (lead.passedFilter) ids.qualified.add(lead.leadId);
+    const stats = feedStatsFor(lead);
+    stats.seen = ids.seen.size;
+    stats.qualified = ids.qualified.size;
+  });
+};
+
+const scheduleFeedRotation = async (): Promise<void> => {
+  await chrome.alarms.clear(FEED_ROTATION_ALARM);
+  if (!agentStarted || autoContactState.stopped || agentSettings.feeds.filter((feed) => feed.enabled).length < 2) {
+    return;
+  }
+  const delay = agentSettings.feedRotationMinutes * 60 * 1000 * (1 + Math.random() * FEED_ROTATION_JITTER);
+  chrome.alarms.create(FEED_ROTATION_ALARM, { when: Date.now() + delay });
+};
+
+const rotateLeadFeed = async (): Promise<void> => {
+  await agentStateRestored;
+  await agentSettingsLoaded;
+  if (!agentStarted || autoContactState.stopped) return;
+
+  const tabId = await findAgentTabId();
+  const queue = await readContactQueue();
+  if (tabId === null) {
+    await reopenAgentTab();
+  }
+  if (tabId === null || queue.some((entry) => entry.status === 'in_progress')) {
+    // Never navigate away mid-contact; look again shortly
+    chrome.alarms.create(FEED_ROTATION_ALARM, { when: Date.now() + QUEUE_RETRY_DELAY });
+    return;
+  }
+
+  const tab = await chrome.tabs.get(tabId);
+  const next = nextFeed(agentSettings.feeds, tab.url);
+  if (next && matchFeed(tab.url, agentSettings.feeds)?.id !== next.id) {
+    appendEventLog(`Switching to the ${next.label} feed.`);
+    await chrome.tabs.update(tabId, { url: next.url });
+  }
+  await scheduleFeedRotation();
+};
+
+const agentSettingsLoaded: Promise<void> = loadAgentSettings().then(async (settings) => {
+  agentSettings = settings;
+  await agentStateRestored;
+  // Alarms outlive the worker; only arm one if none is pending
+  if (!(await chrome.alarms.get(FEED_ROTATION_ALARM))) {
+    await scheduleFeedRotation();
+  }
+});
+
+chrome.storage.onChanged.addListener((changes, areaName) => {
+  if (areaName !== 'local' || !(AGENT_SETTINGS_KEY in changes)) return;
+  agentSettings = validateAgentSettings(changes[AGENT_SETTINGS_KEY].newValue).settings || DEFAULT_AGENT_SETTINGS;
+  scheduleFeedRotation();
+  // A changed schedule moves the next contact with it
+  sendMessageSafe({ type: 'WORKING_HOURS_UPDATE', workingHours: currentWorkingWindow() });
+  withContactQueue(scheduleContactQueueAlarm);
+});
+
+type ContactDispatchResult =
+  | { delivered: false; error: string }
+  | {
+      delivered: true;
+      success: boolean;
+      error?: string;
+      reason?: ContactFailureReason;
+      sentMessage?: string;
+      outcome?: ContactOutcome;
+      outcomeDetail?: string;
+      clickedAt?: number;
+    };
+
+const dispatchContact = (tabId: number, entry: ContactQueueEntry, replyMessage?: string): Promise<ContactDispatchResult> =>
+  new Promise((resolve) => {
+    chrome.tabs.sendMessage(
+      tabId,
+      { type: 'CONTACT_LEAD', leadId: entry.leadId, lead: entry.lead, replyMessage },
+      (response) => {
+        const error = chrome.runtime.lastError;
+        if (error) {
+          // No receiver: the content script isn't attached yet, nothing was clicked
+          if (error.message?.includes('Receiving end does not exist')) {
+            resolve({ delivered: false, error: error.message });
+          } else {
+            // The page may have gone after the click; counted as clicked so a cap is never overrun
+            resolve({
+              delivered: true,
+              success: false,
+              reason: 'interrupted',
+              error: `Interrupted during contact: ${error.message}`,
+              clickedAt: Date.now(),
+            });
+          }
+          return;
+        }
+        resolve({
+          delivered: true,
+          success: Boolean(response?.success),
+          error: response?.error,
+          reason: response?.reason,
+          sentMessage: response?.sentMessage,
+          outcome: response?.outcome,
+          outcomeDetail: response?.outcomeDetail,
+          clickedAt: typeof response?.clickedAt === 'number' ? response.clickedAt : undefined,
+        });
+      }
+    );
+  });
+
+const recordContactSuccess = (lead: Lead) => {
+  autoContactState.processedLeads.add(lead.leadId);
+  autoContactState.lastContactTime = Date.now();
+  autoContactState.statistics.totalContacted += 1;
+  if (lead.profileId) {
+    const profileStats = autoContactState.statistics.byProfile[lead.profileId] ||
+      { profileName: lead.profileName || lead.profileId, filtered: 0, contacted: 0 };
+    profileStats.contacted += 1;
+    autoContactState.statistics.byProfile[lead.profileId] = profileStats;
+  }
+  feedStatsFor(lead).contacted += 1;
+
+  // Notify popup if open
+  sendMessageSafe({
+    type: 'AUTO_CONTACT_UPDATE',
+    leadId: lead.leadId,
+    companyName: lead.companyName,
+    replyMessage: lead.replyMessage,
+    timestamp: new Date().toISOString(),
+    statistics: autoContactState.statistics
+  });
+};
+
+// Navigate the agent tab to the feed a lead was scraped from, as its card is only there.
+// Resolves true when the tab had to move (the contact is retried once the feed has loaded).
+const moveToLeadFeed = async (tabId: number, lead: Lead): Promise<boolean> => {
+  await agentSettingsLoaded;
+  const feed = agentSettings.feeds.find((candidate) => candidate.id === lead.sourceFeedId);
+  if (!feed) return false;
+  const tab = await chrome.tabs.get(tabId);
+  if (matchFeed(tab.url, agentSettings.feeds)?.id === feed.id) return false;
+  appendEventLog(`Opening the ${feed.label} feed to contact ${lead.companyName} (lead ${lead.leadId}).`);
+  await chrome.tabs.update(tabId, { url: feed.url });
+  return true;
+};
+
+// Transient failures go back in the queue with backoff; the rest, or any that run out of attempts, are dead-lettered
+const recordContactFailure = (entry: ContactQueueEntry, reason: ContactFailureReason, error: string) => {
+  const lead = `${entry.lead.companyName} (lead ${entry.leadId}, profile ${entry.lead.profileName || 'N/A'})`;
+  const sentence = error.replace(/\.?\s*$/, '.');
+  entry.failureReason = reason;
+  entry.lastError = error;
+  const retryAt = nextRetryAt(entry, reason, agentSettings);
+  if (retryAt !== undefined) {
+    entry.status = 'pending';
+    entry.dueAt = retryAt;
+    appendEventLog(
+      `Contact failed for ${lead}: ${sentence} Retrying in ${Math.round((retryAt - Date.now()) / 60000)} min (attempt ${entry.attempts + 1} of ${agentSettings.contactMaxAttempts}).`
+    );
+    return;
+  }
+  entry.status = 'dead_letter';
+  entry.completedAt = Date.now();
+  entry.outcome = 'failed';
+  entry.outcomeDetail = error;
+  appendEventLog(`Contact failed for ${lead}: ${sentence} Moved to failed contacts (${CONTACT_FAILURE_LABELS[reason]}, ${entry.attempts} attempt(s)).`);
+};
+
+// Contact budget: caps and the credit reserve stop contacting only; scraping and logging go on
+let creditBalance: CreditBalance | undefined;
+let budgetPausedReason: string | null = null;
+
+const creditBalanceLoaded: Promise<void> = chrome.storage.local.get(CREDIT_BALANCE_KEY).then((result) => {
+  creditBalance = result[CREDIT_BALANCE_KEY] || undefined;
+});
+
+const recordCreditBalance = async (credits: number): Promise<void> => {
+  await creditBalanceLoaded;
+  const changed = creditBalance?.credits !== credits;
+  creditBalance = { credits, checkedAt: Date.now() };
+  if (changed) {
+    await chrome.storage.local.set({ [CREDIT_BALANCE_KEY]: creditBalance });
+  }
+};
+
+// Evaluate the budget against the queue's contact history; log and notify when contacting pauses or resumes
+// The budget as it stands, without side effects; status queries use this
+const currentContactBudget = async (queue: ContactQueueEntry[]): Promise<ContactBudgetStatus> => {
+  await Promise.all([agentSettingsLoaded, creditBalanceLoaded]);
+  const { profiles } = await loadFilterProfiles();
+  return evaluateContactBudget(queue, agentSettings, profiles, creditBalance);
+};
+
+// Only the contact queue calls this: a pause or resume is logged (and a pause notified) once, when it happens
+const checkContactBudget = async (queue: ContactQueueEntry[]): Promise<ContactBudgetStatus> => {
+  const budget = await currentContactBudget(queue);
+  const reason = budget.pausedReason || null;
+  if (reason && !budgetPausedReason) {
+    const resumes = budget.resumesAt ? ` until ${new Date(budget.resumesAt).toLocaleString()}` : '';
+    appendEventLog(`Auto-contact paused${resumes}. ${reason}. Scraping and logging continue.`);
+    notify('indiamart-budget', 'IndiaMART Agent: contacting paused', reason);
+  } else if (!reason && budgetPausedReason) {
+    appendEventLog('Contact budget available again; auto-contact resumed.');
+  }
+  budgetPausedReason = reason;
+  sendMessageSafe({ type: 'CONTACT_BUDGET_UPDATE', budget });
+  return budget;
+};
+
+// Working hours: outside the window leads are still scraped and queued, only contacting waits
+let outsideWorkingHours = false;
+
+const currentWorkingWindow = (): WorkingWindow => workingWindow(agentSettings.workingHours);
+
+// Like checkContactBudget, called from the contact queue only, so each change is logged once
+const checkWorkingHours = (): WorkingWindow => {
+  const current = currentWorkingWindow();
+  if (!current.open && !outsideWorkingHours) {
+    appendEventLog(`Outside working hours; queued contacts wait for the next window (${formatWorkingWindow(current)}).`);
+  } else if (current.open && outsideWorkingHours) {
+    appendEventLog('Working hours started; auto-contact resumed.');
+  }
+  outsideWorkingHours = !current.open;
+  sendMessageSafe({ type: 'WORKING_HOURS_UPDATE', workingHours: current });
+  return current;
+};
+
+interface ClaimedContact {
+  entry: ContactQueueEntry;
+  tabId: number;
+  reply: ReturnType<typeof buildReply>;
+}
+
+// Pick the due entry to contact and save it as in_progress before anything is clicked,
+// so a worker that dies mid-contact leaves it for the restart check instead of re-sending
+const claimDueContact = () =>
+  withContactQueue(async (queue): Promise<ClaimedContact | undefined> => {
+    await agentStateRestored;
+    // One contact at a time; the one in flight re-arms the alarm when it finishes
+    if (queue.some((item) => item.status === 'in_progress')) {
+      return undefined;
+    }
+    if (!autoContactState.enabled || autoContactState.stopped || extractionPausedReason) {
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    const now = Date.now();
+    const due = queue.filter((item) => item.status === 'pending' && item.dueAt <= now);
+    if (due.length === 0) {
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    await agentSettingsLoaded;
+    if (!checkWorkingHours().open) {
+      // The alarm is re-armed for the next window
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    const budget = await checkContactBudget(queue);
+    if (budget.pausedReason) {
+      // Low credits have no known end; look again once the header may have been read anew
+      const resumeAt = budget.resumesAt ?? now + BUDGET_RECHECK_DELAY;
+      due.forEach((item) => {
+        item.dueAt = resumeAt;
+      });
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    // Leads from a profile that used up today's contacts wait for tomorrow
+    due
+      .filter((item) => profileCapReached(budget, item.lead.profileId))
+      .forEach((item) => {
+        const { profileName, cap } = budget.byProfile[item.lead.profileId!];
+        item.dueAt = startOfNextZonedDay(now, agentSettings.workingHours.timeZone);
+        appendEventLog(`Daily cap of ${cap} reached for profile ${profileName}; ${item.lead.companyName} (lead ${item.leadId}) waits until tomorrow.`);
+      });
+
+    // Of everything already due, the best-scoring lead goes first
+    const entry = due
+      .filter((item) => item.dueAt <= now)
+      .sort((a, b) => compareByScore(a, b) || a.dueAt - b.dueAt)[0];
+    if (!entry) {
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    const tabId = await findAgentTabId();
+    if (tabId === null) {
+      await reopenAgentTab();
+      entry.dueAt = now + QUEUE_RETRY_DELAY;
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    if (await moveToLeadFeed(tabId, entry.lead)) {
+      entry.dueAt = Date.now() + QUEUE_RETRY_DELAY;
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    // Rendered at send time so template edits apply to leads already queued
+    const reply = buildReply(entry.lead, await loadReplyTemplates());
+    entry.status = 'in_progress';
+    entry.attempts += 1;
+    return { entry, tabId, reply };
+  });
+
+// Contact the earliest due entry (one per alarm), then re-arm for the next one. The contact flow
+// runs outside the queue lock so new leads can still be queued while it is on the page.
+const processContactQueue = async (): Promise<void> => {
+  const claimed = await claimDueContact();
+  if (!claimed) return;
+  const { reply } = claimed;
+  const result = await dispatchContact(claimed.tabId, claimed.entry, reply?.message);
+
+  await withContactQueue(async (queue) => {
+    const entry = queue.find((item) => item.leadId === claimed.entry.leadId && item.status === 'in_progress');
+    if (!entry) {
+      await scheduleContactQueueAlarm(queue);
+      return;
+    }
+
+    if (result.delivered && result.clickedAt !== undefined) {
+      entry.clickedAt = [...(entry.clickedAt || []), result.clickedAt];
+    }
+
+    if (!result.delivered) {
+      // Content script not ready (e.g. mid-reload); this does not count as an attempt
+      entry.status = 'pending';
+      entry.attempts -= 1;
+      entry.dueAt = Date.now() + QUEUE_RETRY_DELAY;
+    } else if (result.success) {
+      // Sent either way, so never retried; only a confirmed contact counts
+      const confirmed = result.outcome === 'confirmed';
+      entry.status = 'done';
+      entry.completedAt = Date.now();
+      entry.outcome = confirmed ? 'confirmed' : 'unconfirmed';
+      entry.outcomeDetail = result.outcomeDetail || 'no verification result from the page';
+      // The queue entry keeps the lead as contacted, with the message that went out
+      entry.lead = {
+        ...entry.lead,
+        autoContacted: confirmed,
+        contactedAt: new Date(entry.completedAt).toISOString(),
+        replyTemplateId: reply?.templateId,
+        replyTemplateName: reply?.templateName,
+        replyMessage: result.sentMessage ?? reply?.message,
+      };
+      const sent = `${entry.lead.companyName} (lead ${entry.leadId}, profile ${entry.lead.profileName || 'N/A'}) with ${reply ? `template "${reply.templateName}"` : 'the pre-filled reply'}`;
+      if (confirmed) {
+        recordContactSuccess(entry.lead);
+        appendEventLog(`Contacted ${sent}: ${entry.outcomeDetail}.`);
+      } else {
+        autoContactState.processedLeads.add(entry.leadId);
+        autoContactState.statistics.totalUnconfirmed += 1;
+        appendEventLog(`Replied to ${sent}, but IndiaMART did not confirm it (${entry.outcomeDetail}). Not counted as contacted.`);
+      }
+    } else {
+      recordContactFailure(entry, result.reason || 'unknown', result.error || 'Unknown error during contact flow.');
+    }
+    if (entry.clickedAt?.length) {
+      await checkContactBudget(queue);
+    }
+
+    // Keep the spacing between consecutive contacts even if several were due
+    queue
+      .filter((item) => item.status === 'pending' && item.dueAt < Date.now() + MIN_CONTACT_SPACING)
+      .forEach((item) => {
+        item.dueAt = Date.now() + MIN_CONTACT_SPACING;
+      });
+    await scheduleContactQueueAlarm(queue);
+  });
+};
+
+// Pause queued contacts when a scrape comes back with critical fields missing, resume on the next healthy one
+const handleExtractionHealth = async (health: ExtractionHealth): Promise<void> => {
+  await agentStateRestored;
+  await chrome.storage.local.set({ [EXTRACTION_HEALTH_KEY]: health });
+
+  if (!health.healthy && !extractionPausedReason) {
+    const sample = health.cards ? ` of ${health.cards} cards` : '';
+    extractionPausedReason = `Extraction degraded with selectors ${health.selectorRevision}: ${formatDegradedFields(health)}${sample}`;
+    persistAgentState();
+    appendEventLog(`Auto-contact paused. ${extractionPausedReason}.`);
+    setBadge('!', extractionPausedReason, '#dc2626');
+    notify('indiamart-extraction', 'IndiaMART Agent: auto-contact paused', `${extractionPausedReason}. Check the selector pack.`);
+    await withContactQueue(scheduleContactQueueAlarm);
+  } else if (health.healthy && extractionPausedReason) {
+    extractionPausedReason = null;
+    persistAgentState();
+    appendEventLog(`Extraction healthy again (${health.cards} cards, selectors ${health.selectorRevision}); auto-contact resumed.`);
+    setBadge('OK', 'Extraction healthy', '#16a34a');
+    await withContactQueue(scheduleContactQueueAlarm);
+  }
+
+  sendMessageSafe({ type: 'EXTRACTION_HEALTH_UPDATE', health, pausedReason: extractionPausedReason });
+};
+
+const readDeadLetters = () => readContactQueue().then((queue) => queue.filter((entry) => entry.status === 'dead_letter'));
+
+// Popup actions on the dead-letter list: retry puts the lead back in the queue with fresh attempts,
+// dismiss keeps it only as a finished entry so it is never queued again
+const resolveDeadLetter = (leadId: string, action: 'retry' | 'dismiss') =>
+  withContactQueue(async (queue) => {
+    const entry = queue.find((item) => item.leadId === leadId && item.status === 'dead_letter');
+    if (!entry) return false;
+    if (action === 'retry') {
+      entry.status = 'pending';
+      entry.attempts = 0;
+      entry.dueAt = Date.now();
+      delete entry.completedAt;
+      delete entry.outcome;
+      delete entry.outcomeDetail;
+      appendEventLog(`Retrying failed contact ${entry.lead.companyName} (lead ${leadId}) on request.`);
+    } else {
+      entry.status = 'failed';
+      appendEventLog(`Dismissed failed contact ${entry.lead.companyName} (lead ${leadId}).`);
+    }
+    await scheduleContactQueueAlarm(queue);
+    return true;
+  });
+
+// Drop everything still waiting; finished entries stay for de-duplication, dead letters for the popup,
+// and a contact already on the page so its result can still be recorded
+const clearPendingContacts = () =>
+  withContactQueue(async (queue) => {
+    const remaining = queue.filter((entry) => entry.status !== 'pending');
+    const dropped = queue.length - remaining.length;
+    queue.splice(0, queue.length, ...remaining);
+    if (dropped > 0) {
+      appendEventLog(`Cleared ${dropped} queued contact(s).`);
+    }
+    await scheduleContactQueueAlarm(queue);
+  });
+
+// A worker that died mid-contact leaves entries in_progress; never re-click those blindly
+withContactQueue(async (queue) => {
+  queue
+    .filter((entry) => entry.status === 'in_progress')
+    .forEach((entry) => {
+      entry.status = 'dead_letter';
+      entry.completedAt = Date.now();
+      entry.failureReason = 'interrupted';
+      entry.lastError = 'Interrupted before completion (service worker restarted).';
+      entry.outcome = 'failed';
+      entry.outcomeDetail = entry.lastError;
+      // Whether it got as far as the click is unknown; counted so a cap is never overrun
+      entry.clickedAt = [...(entry.clickedAt || []), entry.completedAt];
+    });
+  queue
+    .filter((entry) => entry.status === 'done')
+    .forEach((entry) => autoContactState.processedLeads.add(entry.leadId));
+  await agentStateRestored;
+  await agentSettingsLoaded;
+  await scheduleContactQueueAlarm(queue);
+});
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.type === 'START_AGENT') {
-    const targetUrl = 'https://seller.indiamart.com/bltxn/?pref=relevant';
-
     const sendStatus = () => {
       sendResponse({
         success: true,
@@ -202,45 +903,46 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
       return true;
     }
 
-    // Find if the tab already exists
-    chrome.tabs.query({ url: targetUrl }, (tabs) => {
+    // Reuse an open Buy Leads tab; otherwise open the first enabled feed
+    agentSettingsLoaded.then(() => chrome.tabs.query({ url: '*://seller.indiamart.com/bltxn/*' }, (tabs) => {
       autoContactState.stopped = false;
       autoContactState.enabled = true;
+      agentStarted = true;
       agentActive = false;
       latestLeadsPayload = null;
       
       // Setup alarm for periodic log processing
       setupLogProcessingAlarm();
+      scheduleFeedRotation();
       
       if (tabs.length > 0 && tabs[0].id) {
         // If tab exists, focus it and inject the script
         chrome.tabs.update(tabs[0].id, { active: true }, (tab) => {
           if (tab && tab.id) {
+             agentTabId = tab.id;
+             persistAgentState();
              injectScript(tab.id);
           }
         });
       } else {
-        // If tab doesn't exist, create it
-        chrome.tabs.create({ url: targetUrl, active: true }, (tab) => {
+        // If tab doesn't exist, create it; the tabs.onUpdated lifecycle listener injects once it loads
+        const startFeed = nextFeed(agentSettings.feeds, undefined);
+        chrome.tabs.create({ url: startFeed?.url || DEFAULT_AGENT_SETTINGS.feeds[0].url, active: true }, (tab) => {
             if (tab && tab.id) {
-                const listener = (tabId: number, changeInfo: chrome.tabs.TabChangeInfo) => {
-                    if (tabId === tab.id && changeInfo.status === 'complete') {
-                        // Remove listener to avoid multiple injections
-                        chrome.tabs.onUpdated.removeListener(listener);
-                        injectScript(tabId);
-                    }
-                };
-                chrome.tabs.onUpdated.addListener(listener);
+                agentTabId = tab.id;
             }
+            persistAgentState();
         });
       }
 
       sendStatus();
-    });
+    }));
     return true; // Indicates that the response is sent asynchronously
   } else if (message.type === 'ENABLE_AUTO_CONTACT') {
     autoContactState.enabled = true;
     autoContactState.statistics.sessionStartTime = Date.now();
+    persistAgentState();
+    withContactQueue(scheduleContactQueueAlarm);
     
     // Setup alarm for periodic log processing
     setupLogProcessingAlarm();
@@ -258,6 +960,8 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     return true;
   } else if (message.type === 'DISABLE_AUTO_CONTACT') {
     autoContactState.enabled = false;
+    persistAgentState();
+    withContactQueue(scheduleContactQueueAlarm); // pauses the queue; entries are kept
     
     // Clear alarm when auto-contact is disabled
     clearLogProcessingAlarm();
@@ -276,30 +980,66 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   } else if (message.type === 'GET_AUTO_CONTACT_STATE') {
     sendResponse(autoContactState);
     return true;
-  } else if (message.type === 'AUTO_CONTACT_SUCCESS') {
-    // Update statistics
-    autoContactState.processedLeads.add(message.leadId);
-    autoContactState.lastContactTime = Date.now();
-    autoContactState.statistics.totalContacted = message.contactedCount || autoContactState.statistics.totalContacted + 1;
-    autoContactState.statistics.totalFiltered = message.totalFiltered || autoContactState.statistics.totalFiltered;
-    
-    // Notify popup if open
-    sendMessageSafe({
-      type: 'AUTO_CONTACT_UPDATE',
-      leadId: message.leadId,
-      companyName: message.companyName,
-      timestamp: message.timestamp,
-      statistics: autoContactState.statistics
+  } else if (message.type === 'ENQUEUE_CONTACTS') {
+    // Content script hands over qualified leads; the queue owns timing from here
+    const leads: Lead[] = Array.isArray(message.leads) ? message.leads : [];
+    enqueueContacts(leads)
+      .then(({ queuedIds, knownIds }) => sendResponse({ success: true, queuedLeadIds: queuedIds, knownLeadIds: knownIds }))
+      .catch((error) => sendResponse({ success: false, error: error?.message || 'Failed to queue contacts.' }));
+    return true;
+  } else if (message.type === 'GET_DEAD_LETTERS') {
+    readDeadLetters()
+      .then((deadLetters) => sendResponse({ success: true, deadLetters }))
+      .catch((error) => sendResponse({ success: false, error: error?.message || 'Failed to read failed contacts.' }));
+    return true;
+  } else if (message.type === 'RETRY_DEAD_LETTER' || message.type === 'DISMISS_DEAD_LETTER') {
+    resolveDeadLetter(String(message.leadId), message.type === 'RETRY_DEAD_LETTER' ? 'retry' : 'dismiss')
+      .then(async (found) => sendResponse({ success: found, deadLetters: await readDeadLetters() }))
+      .catch((error) => sendResponse({ success: false, error: error?.message || 'Failed to update failed contacts.' }));
+    return true;
+  } else if (message.type === 'CREDIT_BALANCE') {
+    if (typeof message.credits === 'number' && Number.isFinite(message.credits)) {
+      recordCreditBalance(message.credits);
+    }
+    sendResponse({ success: true });
+    return true;
+  } else if (message.type === 'EXTRACTION_HEALTH') {
+    if (message.health) {
+      handleExtractionHealth(message.health as ExtractionHealth);
+    }
+    sendResponse({ success: true });
+    return true;
+  } else if (message.type === 'CAPTURE_SNAPSHOT') {
+    // The popup can't reach the Buy Leads tab directly; relay to its content script
+    findAgentTabId().then((tabId) => {
+      if (tabId === null) {
+        sendResponse({ success: false, error: "The agent's Buy Leads tab is not open; start the agent first." });
+        return;
+      }
+      chrome.tabs.sendMessage(tabId, { type: 'CAPTURE_SNAPSHOT' }, (response) => {
+        const error = chrome.runtime.lastError;
+        sendResponse(error ? { success: false, error: `Agent not attached to the Buy Leads page: ${error.message}` } : response);
+      });
     });
     return true;
+  } else if (message.type === 'GET_CONTACT_QUEUE') {
+    readContactQueue()
+      .then((queue) => sendResponse({ success: true, queue, summary: summarizeContactQueue(queue) }))
+      .catch((error) => sendResponse({ success: false, error: error?.message }));
+    return true;
   } else if (message.type === 'STOP_AGENT') {
     autoContactState.enabled = false;
     autoContactState.stopped = true;
+    agentStarted = false;
     agentActive = false;
     latestLeadsPayload = null;
+    persistAgentState();
+    clearPendingContacts();
+    appendEventLog('Agent stopped by user; page reloads will no longer re-attach.');
     
     // Clear alarm when agent is stopped
     clearLogProcessingAlarm();
+    chrome.alarms.clear(FEED_ROTATION_ALARM);
     
     // Forward to all active IndiaMART tabs
     chrome.tabs.query({ url: '*://seller.indiamart.com/*' }, (tabs) => {
@@ -315,12 +1055,28 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   } else if (message.type === 'FILTERED_LEADS_DATA') {
     // Update filtered count
     if (message.payload && message.payload.filteredLeads) {
-      autoContactState.statistics.totalFiltered = message.payload.filteredLeads.length;
+      const filteredLeads: Lead[] = message.payload.filteredLeads;
+      autoContactState.statistics.totalFiltered = filteredLeads.length;
+
+      // Per-profile filtered counts mirror the latest batch; contacted counts accumulate
+      const byProfile = autoContactState.statistics.byProfile;
+      Object.values(byProfile).forEach((profileStats) => {
+        profileStats.filtered = 0;
+      });
+      filteredLeads.forEach((lead) => {
+        if (!lead.profileId) return;
+        const profileStats = byProfile[lead.profileId] || { profileName: lead.profileName || lead.profileId, filtered: 0, contacted: 0 };
+        profileStats.profileName = lead.profileName || profileStats.profileName;
+        profileStats.filtered += 1;
+        byProfile[lead.profileId] = profileStats;
+      });
+      recordFeedYield(message.payload.allLeads || []);
     }
     latestLeadsPayload = message.payload || null;
     agentActive = true;
-    if (typeof message.payload?.autoContactEnabled === 'boolean') {
+    if (typeof message.payload?.autoContactEnabled === 'boolean' && message.payload.autoContactEnabled !== autoContactState.enabled) {
       autoContactState.enabled = message.payload.autoContactEnabled;
+      persistAgentState();
     }
     // Forward to popup
     sendMessageSafe(message);
@@ -329,21 +1085,40 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
     autoContactState.processedLeads.clear();
     autoContactState.statistics = {
       totalContacted: 0,
+      totalUnconfirmed: 0,
       totalFiltered: 0,
-      sessionStartTime: Date.now()
+      sessionStartTime: Date.now(),
+      byProfile: {},
+      byFeed: {}
     };
+    feedLeadIds = {};
     agentActive = false;
     latestLeadsPayload = null;
     sendResponse({ success: true, state: autoContactState });
     return true;
   } else if (message.type === 'GET_AGENT_STATUS') {
-    sendResponse({
-      success: true,
-      agentActive,
-      agentStopped: autoContactState.stopped,
-      autoContactEnabled: autoContactState.enabled,
-      statistics: autoContactState.statistics,
-      leadsPayload: latestLeadsPayload,
+    // Wait for persisted state so a freshly restarted worker doesn't report defaults
+    Promise.all([
+      agentStateRestored,
+      readContactQueue(),
+      chrome.storage.local.get(EXTRACTION_HEALTH_KEY),
+      agentSettingsLoaded,
+    ]).then(async ([, contactQueue, stored]) => {
+      const budget = await currentContactBudget(contactQueue);
+      const workingHours = currentWorkingWindow();
+      sendResponse({
+        success: true,
+        agentActive,
+        agentStopped: autoContactState.stopped,
+        autoContactEnabled: autoContactState.enabled,
+        statistics: autoContactState.statistics,
+        leadsPayload: latestLeadsPayload,
+        queue: summarizeContactQueue(contactQueue),
+        budget,
+        workingHours,
+        extractionHealth: stored[EXTRACTION_HEALTH_KEY] || null,
+        extractionPausedReason,
+      });
     });
     return true;
   } else if (message.type === 'LOG_PROCESSING_SUCCESS') {
@@ -353,39 +1128,91 @@ chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   } else if (message.type === 'LOGS_UPDATED') {
     // A real change was saved; update badge and notify once per change
     lastSuccessfulLogTime = Date.now();
-    setBadge('OK', `Last update: ${new Date().toLocaleTimeString()}`, '#16a34a');
+    if (!extractionPausedReason) {
+      setBadge('OK', `Last update: ${new Date().toLocaleTimeString()}`, '#16a34a');
+    }
     notify('indiamart-update', 'IndiaMART Agent: Logs updated', `Updated at ${new Date().toLocaleTimeString()}`);
     return true;
   }
 });
 
-function injectScript(tabId: number) {
+// Re-attach the agent whenever its Buy Leads page finishes loading (reloads included),
+// as the content script's periodic refresh otherwise leaves the page without an agent.
+chrome.tabs.onUpdated.addListener((tabId, changeInfo, tab) => {
+  if (changeInfo.status !== 'complete' || !tab.url || !BLTXN_URL_PATTERN.test(tab.url)) {
+    return;
+  }
+
+  agentStateRestored.then(() => {
+    if (!agentStarted || autoContactState.stopped) {
+      return;
+    }
+
+    // Buy Leads tabs opened by hand stay the user's; a closed agent tab is replaced by reopenAgentTab
+    if (agentTabId !== tabId) {
+      return;
+    }
+
+    // Re-arm the heartbeat in case the service worker was restarted since the last load
+    if (autoContactState.enabled) {
+      setupLogProcessingAlarm();
+    }
+    injectScript(tabId, 'reattach');
+  });
+});
+
+// There is no declarative content script: the agent runs only in its own tab. START_AGENT injects into
+// a tab that is already open and the listener above covers tabs it opens. After an update or reload of
+// the extension, the running agent's page still holds the old, disconnected script, so it is reloaded
+// to attach the new one.
+chrome.runtime.onInstalled.addListener(() => {
+  agentStateRestored.then(async () => {
+    const tabId = await findAgentTabId();
+    if (!agentStarted || autoContactState.stopped || tabId === null) return;
+    appendEventLog(`Extension updated; reloading agent tab ${tabId} to attach the new version.`);
+    await chrome.tabs.reload(tabId);
+  });
+});
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  if (tabId === agentTabId) {
+    agentTabId = null;
+    persistAgentState();
+    appendEventLog(`Agent tab ${tabId} closed.`);
+  }
+});
+
+function injectScript(tabId: number, reason: 'attach' | 'reattach' = 'attach') {
     chrome.scripting.executeScript({
         target: { tabId: tabId },
         files: ['content.js']
-    }).catch((error) => {
-      // Ignore errors about already injected scripts
-      if (!error.message?.includes('Cannot access a chrome')) {
-        console.log('Content script injection handled:', error.message);
-      }
-      agentActive = false;
     }).then(() => {
-      if (chrome.runtime.lastError) {
-        console.error('Script injection failed: ', chrome.runtime.lastError.message);
-        // Send an error message back to the popup
-        sendMessageSafe({ type: 'SCRAPING_ERROR', error: `Failed to inject script: ${chrome.runtime.lastError.message}` });
-        agentActive = false;
-      } else {
-        console.log('Content script injected successfully');
+        console.log(`Content script injected successfully (${reason})`);
         agentActive = true;
         sendMessageSafe({ type: 'AGENT_READY' });
+
+        if (reason === 'reattach') {
+          appendEventLog(
+            `Re-attached agent to tab ${tabId} after page load (auto-contact ${autoContactState.enabled ? 'enabled' : 'disabled'}).`
+          );
+        } else {
+          appendEventLog(`Attached agent to tab ${tabId}.`);
+        }
         
         // If auto-contact is enabled, notify the content script
         if (autoContactState.enabled) {
           setTimeout(() => {
-            chrome.tabs.sendMessage(tabId, { type: 'ENABLE_AUTO_CONTACT' });
+            chrome.tabs.sendMessage(tabId, { type: 'ENABLE_AUTO_CONTACT' }, () => {
+              // Ignore: the tab may have navigated away in the meantime
+              void chrome.runtime.lastError;
+            });
           }, 1000);
         }
-      }
+    }, (error) => {
+        console.error('Script injection failed: ', error?.message);
+        // Send an error message back to the popup
+        sendMessageSafe({ type: 'SCRAPING_ERROR', error: `Failed to inject script: ${error?.message}` });
+        appendEventLog(`Failed to ${reason === 'reattach' ? 're-attach' : 'attach'} agent to tab ${tabId}: ${error?.message}`);
+        agentActive = false;
     });
 }
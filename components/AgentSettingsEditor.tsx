@@ -0,0 +1,255 @@
+/// <reference types="chrome" />
+import React, { useEffect, useState } from 'react';
+import type { AgentSettings, LeadDetectionMode, LeadFeed, WorkingHours } from '../types';
+import {
+  AGENT_SETTINGS_KEY,
+  DEFAULT_AGENT_SETTINGS,
+  MAX_CONTACT_ATTEMPTS,
+  MAX_CONTACT_RETRY_MINUTES,
+  MAX_ENRICH_PER_PASS,
+  MAX_FEED_ROTATION_MINUTES,
+  MAX_HARVEST_DEPTH,
+  MAX_QUIET_RELOAD_MINUTES,
+  MIN_FEED_ROTATION_MINUTES,
+  loadAgentSettings,
+  saveAgentSettings,
+} from '../lib/agentSettings';
+import { WEEKDAY_LABELS } from '../lib/workingHours';
+
+const smallButtonClass = 'px-2 py-1 text-[11px] rounded bg-slate-700 hover:bg-slate-600 text-white';
+const inputClass =
+  'mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+const DETECTION_LABELS: Record<LeadDetectionMode, string> = {
+  incremental: 'Watch the feed for new cards (reload only when quiet)',
+  reload: 'Reload the page every 30 seconds',
+};
+
+type NumberField =
+  | 'quietReloadMinutes'
+  | 'harvestDepth'
+  | 'harvestMaxAgeHours'
+  | 'feedRotationMinutes'
+  | 'enrichMaxPerPass'
+  | 'contactMaxAttempts'
+  | 'contactRetryMinutes'
+  | 'maxContactsPerHour'
+  | 'maxContactsPerDay'
+  | 'minCreditReserve';
+
+// Numbers are edited as text and validated on save
+const toDrafts = (settings: AgentSettings): Record<NumberField, string> => ({
+  quietReloadMinutes: String(settings.quietReloadMinutes),
+  harvestDepth: String(settings.harvestDepth),
+  harvestMaxAgeHours: String(settings.harvestMaxAgeHours),
+  feedRotationMinutes: String(settings.feedRotationMinutes),
+  enrichMaxPerPass: String(settings.enrichMaxPerPass),
+  contactMaxAttempts: String(settings.contactMaxAttempts),
+  contactRetryMinutes: String(settings.contactRetryMinutes),
+  maxContactsPerHour: String(settings.maxContactsPerHour),
+  maxContactsPerDay: String(settings.maxContactsPerDay),
+  minCreditReserve: String(settings.minCreditReserve),
+});
+
+export const AgentSettingsEditor: React.FC = () => {
+  const [settings, setSettings] = useState<AgentSettings>(DEFAULT_AGENT_SETTINGS);
+  const [drafts, setDrafts] = useState<Record<NumberField, string>>(toDrafts(DEFAULT_AGENT_SETTINGS));
+  // Holidays are edited as one date per line and split on save
+  const [holidays, setHolidays] = useState(DEFAULT_AGENT_SETTINGS.workingHours.holidays.join('\n'));
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const reload = () =>
+    loadAgentSettings().then((loaded) => {
+      setSettings(loaded);
+      setDrafts(toDrafts(loaded));
+      setHolidays(loaded.workingHours.holidays.join('\n'));
+    });
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
+    reload();
+
+    const handleChange: Parameters<typeof chrome.storage.onChanged.addListener>[0] = (changes, areaName) => {
+      if (areaName === 'local' && AGENT_SETTINGS_KEY in changes) {
+        reload();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const updateFeed = (index: number, changes: Partial<LeadFeed>) =>
+    setSettings({ ...settings, feeds: settings.feeds.map((feed, i) => (i === index ? { ...feed, ...changes } : feed)) });
+
+  const updateWorkingHours = (changes: Partial<WorkingHours>) =>
+    setSettings({ ...settings, workingHours: { ...settings.workingHours, ...changes } });
+
+  const toggleWorkingDay = (day: number, checked: boolean) => {
+    const { days } = settings.workingHours;
+    updateWorkingHours({ days: checked ? [...days, day] : days.filter((d) => d !== day) });
+  };
+
+  const save = async () => {
+    try {
+      const result = await saveAgentSettings({
+        ...settings,
+        ...drafts,
+        workingHours: { ...settings.workingHours, holidays: holidays.split(/[\s,]+/) },
+      });
+      setErrors(result.errors);
+      setStatus(result.settings ? 'Saved — the agent picks this up without a reload.' : null);
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save agent settings.']);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-300">
+      <label className="block">
+        <span className="text-slate-400">Lead detection</span>
+        <select
+          value={settings.detectionMode}
+          onChange={(e) => setSettings({ ...settings, detectionMode: e.target.value as LeadDetectionMode })}
+          className={inputClass}
+        >
+          {(Object.keys(DETECTION_LABELS) as LeadDetectionMode[]).map((mode) => (
+            <option key={mode} value={mode}>{DETECTION_LABELS[mode]}</option>
+          ))}
+        </select>
+      </label>
+      {settings.detectionMode === 'incremental' && (
+        <label className="block">
+          <span className="text-slate-400">Reload after no new leads for (minutes, 1–{MAX_QUIET_RELOAD_MINUTES})</span>
+          <input type="number" min={1} max={MAX_QUIET_RELOAD_MINUTES} value={drafts.quietReloadMinutes} onChange={(e) => setDrafts({ ...drafts, quietReloadMinutes: e.target.value })} className={inputClass} />
+        </label>
+      )}
+      <label className="block">
+        <span className="text-slate-400">Harvest below the fold: scroll / "Show more" steps after each load (0 = off, max {MAX_HARVEST_DEPTH})</span>
+        <input type="number" min={0} max={MAX_HARVEST_DEPTH} value={drafts.harvestDepth} onChange={(e) => setDrafts({ ...drafts, harvestDepth: e.target.value })} className={inputClass} />
+      </label>
+      {drafts.harvestDepth !== '0' && (
+        <label className="block">
+          <span className="text-slate-400">Stop harvesting at leads older than (hours, 0 = no limit)</span>
+          <input type="number" min={0} value={drafts.harvestMaxAgeHours} onChange={(e) => setDrafts({ ...drafts, harvestMaxAgeHours: e.target.value })} className={inputClass} />
+        </label>
+      )}
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.enrichDetails} onChange={(e) => setSettings({ ...settings, enrichDetails: e.target.checked })} />
+        <span className="text-slate-400">Open "View details" of promising leads and filter them again on the full description</span>
+      </label>
+      {settings.enrichDetails && (
+        <label className="block">
+          <span className="text-slate-400">Detail views opened per pass (1–{MAX_ENRICH_PER_PASS})</span>
+          <input type="number" min={1} max={MAX_ENRICH_PER_PASS} value={drafts.enrichMaxPerPass} onChange={(e) => setDrafts({ ...drafts, enrichMaxPerPass: e.target.value })} className={inputClass} />
+        </label>
+      )}
+      <div>
+        <span className="text-slate-400">Lead feeds (enabled feeds are visited in turn)</span>
+        {settings.feeds.map((feed, index) => (
+          <div key={feed.id || index} className="mt-1 flex items-center gap-1">
+            <input type="checkbox" checked={feed.enabled} onChange={(e) => updateFeed(index, { enabled: e.target.checked })} />
+            <input value={feed.label} onChange={(e) => updateFeed(index, { label: e.target.value })} placeholder="Name" className={`${inputClass} mt-0 w-24`} />
+            <input value={feed.url} onChange={(e) => updateFeed(index, { url: e.target.value })} placeholder="https://seller.indiamart.com/bltxn/?…" className={`${inputClass} mt-0 font-mono text-[10px]`} />
+            <button
+              onClick={() => setSettings({ ...settings, feeds: settings.feeds.filter((_, i) => i !== index) })}
+              className={smallButtonClass}
+              title="Remove feed"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={() => setSettings({ ...settings, feeds: [...settings.feeds, { id: '', label: '', url: 'https://seller.indiamart.com/bltxn/', enabled: true }] })}
+          className={`${smallButtonClass} mt-1`}
+        >
+          Add feed
+        </button>
+      </div>
+      {settings.feeds.filter((feed) => feed.enabled).length > 1 && (
+        <label className="block">
+          <span className="text-slate-400">Time on each feed (minutes, {MIN_FEED_ROTATION_MINUTES}–{MAX_FEED_ROTATION_MINUTES})</span>
+          <input
+            type="number"
+            min={MIN_FEED_ROTATION_MINUTES}
+            max={MAX_FEED_ROTATION_MINUTES}
+            value={drafts.feedRotationMinutes}
+            onChange={(e) => setDrafts({ ...drafts, feedRotationMinutes: e.target.value })}
+            className={inputClass}
+          />
+        </label>
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="block">
+          <span className="text-slate-400">Contact attempts (1–{MAX_CONTACT_ATTEMPTS})</span>
+          <input type="number" min={1} max={MAX_CONTACT_ATTEMPTS} value={drafts.contactMaxAttempts} onChange={(e) => setDrafts({ ...drafts, contactMaxAttempts: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-slate-400">First retry after (minutes, doubles)</span>
+          <input type="number" min={1} max={MAX_CONTACT_RETRY_MINUTES} value={drafts.contactRetryMinutes} onChange={(e) => setDrafts({ ...drafts, contactRetryMinutes: e.target.value })} className={inputClass} />
+        </label>
+      </div>
+      <p className="text-slate-400">Contact budget (0 = no cap). Scraping and logging go on when it is used up.</p>
+      <div className="grid grid-cols-3 gap-2">
+        <label className="block">
+          <span className="text-slate-400">Per hour</span>
+          <input type="number" min={0} value={drafts.maxContactsPerHour} onChange={(e) => setDrafts({ ...drafts, maxContactsPerHour: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block">
+          <span className="text-slate-400">Per day</span>
+          <input type="number" min={0} value={drafts.maxContactsPerDay} onChange={(e) => setDrafts({ ...drafts, maxContactsPerDay: e.target.value })} className={inputClass} />
+        </label>
+        <label className="block" title="Contacting stops once the header shows this many BuyLead credits or fewer">
+          <span className="text-slate-400">Credit reserve</span>
+          <input type="number" min={0} value={drafts.minCreditReserve} onChange={(e) => setDrafts({ ...drafts, minCreditReserve: e.target.value })} className={inputClass} />
+        </label>
+      </div>
+      <label className="flex items-center gap-2">
+        <input type="checkbox" checked={settings.workingHours.enabled} onChange={(e) => updateWorkingHours({ enabled: e.target.checked })} />
+        <span className="text-slate-400">Contact only during working hours (leads found outside them wait in the queue)</span>
+      </label>
+      {settings.workingHours.enabled && (
+        <div className="space-y-2 pl-5">
+          <div className="flex flex-wrap gap-2">
+            {WEEKDAY_LABELS.map((label, day) => (
+              <label key={label} className="flex items-center gap-1">
+                <input type="checkbox" checked={settings.workingHours.days.includes(day)} onChange={(e) => toggleWorkingDay(day, e.target.checked)} />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            <label className="block">
+              <span className="text-slate-400">From</span>
+              <input type="time" value={settings.workingHours.start} onChange={(e) => updateWorkingHours({ start: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-slate-400">Until</span>
+              <input type="time" value={settings.workingHours.end} onChange={(e) => updateWorkingHours({ end: e.target.value })} className={inputClass} />
+            </label>
+            <label className="block">
+              <span className="text-slate-400">Time zone</span>
+              <input value={settings.workingHours.timeZone} onChange={(e) => updateWorkingHours({ timeZone: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+          <label className="block">
+            <span className="text-slate-400">Holidays (YYYY-MM-DD, one per line)</span>
+            <textarea value={holidays} onChange={(e) => setHolidays(e.target.value)} rows={3} className={`${inputClass} font-mono`} />
+          </label>
+        </div>
+      )}
+      {errors.length > 0 && (
+        <ul className="p-2 bg-red-900/20 rounded text-red-400 space-y-0.5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+      <button onClick={save} className="px-2 py-1 text-[11px] rounded bg-indigo-700 hover:bg-indigo-600 text-white">
+        Save
+      </button>
+      {status && <div className="text-green-400">{status}</div>}
+    </div>
+  );
+};
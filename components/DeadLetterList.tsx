@@ -0,0 +1,62 @@
+/// <reference types="chrome" />
+import React, { useEffect, useState } from 'react';
+import type { ContactQueueEntry } from '../types';
+import { CONTACT_FAILURE_LABELS } from '../lib/contactRetry';
+
+const smallButtonClass = 'px-2 py-1 text-[11px] rounded bg-slate-700 hover:bg-slate-600 text-white';
+
+interface DeadLetterListProps {
+  /** Dead-letter count from the queue summary; a change triggers a refetch. */
+  count: number;
+}
+
+// Contacts that ran out of retries (or failed in a way that is never retried automatically)
+export const DeadLetterList: React.FC<DeadLetterListProps> = ({ count }) => {
+  const [entries, setEntries] = useState<ContactQueueEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleResponse = (response: { success?: boolean; deadLetters?: ContactQueueEntry[]; error?: string } | undefined) => {
+    if (chrome.runtime.lastError) {
+      setError(chrome.runtime.lastError.message || 'Background unavailable.');
+      return;
+    }
+    if (response?.deadLetters) setEntries(response.deadLetters);
+    setError(response?.error || null);
+  };
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return;
+    chrome.runtime.sendMessage({ type: 'GET_DEAD_LETTERS' }, handleResponse);
+  }, [count]);
+
+  const resolve = (leadId: string, type: 'RETRY_DEAD_LETTER' | 'DISMISS_DEAD_LETTER') =>
+    chrome.runtime.sendMessage({ type, leadId }, handleResponse);
+
+  return (
+    <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-300">
+      {entries.length === 0 && <div className="text-slate-500">No failed contacts.</div>}
+      {entries.map((entry) => (
+        <div key={entry.leadId} className="p-2 border border-red-900/60 rounded space-y-1">
+          <div className="flex justify-between gap-2">
+            <span className="font-semibold text-slate-200">{entry.lead.companyName}</span>
+            <span className="text-slate-500">{entry.attempts} attempt(s)</span>
+          </div>
+          <div className="text-slate-400">{entry.lead.enquiryTitle}</div>
+          <div className="text-red-400" title={entry.lastError}>
+            {entry.failureReason ? CONTACT_FAILURE_LABELS[entry.failureReason] : 'Failed'}
+            {entry.lastError && <span className="text-slate-500"> — {entry.lastError}</span>}
+          </div>
+          <div className="flex gap-2">
+            <button onClick={() => resolve(entry.leadId, 'RETRY_DEAD_LETTER')} className={smallButtonClass}>
+              Retry
+            </button>
+            <button onClick={() => resolve(entry.leadId, 'DISMISS_DEAD_LETTER')} className={smallButtonClass}>
+              Dismiss
+            </button>
+          </div>
+        </div>
+      ))}
+      {error && <div className="text-red-400">{error}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,362 @@
+/// <reference types="chrome" />
+import React, { useEffect, useState } from 'react';
+import type { FilterProfile, FilterProfileSet, QuantityUnit, ScoreSignal } from '../types';
+import {
+  DEFAULT_FILTER_CONFIG,
+  DEFAULT_FILTER_PROFILES,
+  FILTER_PROFILES_KEY,
+  SCORE_SIGNALS,
+  createProfileId,
+  loadFilterProfiles,
+  saveFilterProfiles,
+} from '../lib/filterConfig';
+import { isKnownLocationTerm } from '../lib/gazetteer';
+
+// Lists are edited as comma/newline separated text; synonym groups as one comma-separated group per line
+type ListField = 'enquiryKeywords' | 'negativeKeywords' | 'synonymGroups' | 'includedLocations' | 'excludedLocations' | 'foreignIndicators' | 'allowedCategories' | 'preferredLocations' | 'minQuantityByUnit';
+type NumberField = 'minQuantity' | 'minOrderValue' | 'minScore' | 'maxAgeHours' | 'minMembershipMonths' | 'maxSellersContacted' | 'dailyContactCap';
+type FlagField = 'fuzzyMatch' | 'requireVerifiedMobile' | 'requireVerifiedEmail' | 'requireGst';
+
+type ProfileDraft = Pick<FilterProfile, 'id' | 'name' | 'active' | 'autoContact' | FlagField> &
+  Record<ListField, string> &
+  Record<NumberField, string> & { scoreWeights: Record<ScoreSignal, string> };
+
+const SIGNAL_LABELS: Record<ScoreSignal, string> = {
+  keyword: 'Keyword',
+  quantity: 'Quantity',
+  orderValue: 'Order value',
+  location: 'Location',
+  category: 'Category',
+  freshness: 'Freshness',
+};
+
+const mapWeights = <T, U>(weights: Record<ScoreSignal, T>, fn: (value: T) => U): Record<ScoreSignal, U> =>
+  Object.fromEntries(SCORE_SIGNALS.map((signal) => [signal, fn(weights[signal])])) as Record<ScoreSignal, U>;
+
+const toDraft = (profile: FilterProfile): ProfileDraft => ({
+  id: profile.id,
+  name: profile.name,
+  active: profile.active,
+  autoContact: profile.autoContact,
+  enquiryKeywords: profile.enquiryKeywords.join(', '),
+  negativeKeywords: profile.negativeKeywords.join(', '),
+  synonymGroups: profile.synonymGroups.map((group) => group.join(', ')).join('\n'),
+  fuzzyMatch: profile.fuzzyMatch,
+  requireVerifiedMobile: profile.requireVerifiedMobile,
+  requireVerifiedEmail: profile.requireVerifiedEmail,
+  requireGst: profile.requireGst,
+  includedLocations: profile.includedLocations.join(', '),
+  excludedLocations: profile.excludedLocations.join(', '),
+  foreignIndicators: profile.foreignIndicators.join(', '),
+  allowedCategories: profile.allowedCategories.join(', '),
+  preferredLocations: profile.preferredLocations.join(', '),
+  minQuantityByUnit: formatUnitMinimums(profile.minQuantityByUnit),
+  minQuantity: String(profile.minQuantity),
+  minOrderValue: String(profile.minOrderValue),
+  minScore: String(profile.minScore),
+  maxAgeHours: String(profile.maxAgeHours),
+  minMembershipMonths: String(profile.minMembershipMonths),
+  maxSellersContacted: profile.maxSellersContacted === null ? '' : String(profile.maxSellersContacted),
+  dailyContactCap: String(profile.dailyContactCap),
+  scoreWeights: mapWeights(profile.scoreWeights, String),
+});
+
+const splitTerms = (text: string): string[] => text.split(/[,\n]/).map((term) => term.trim()).filter(Boolean);
+
+// "piece: 100, meter: 500" ⇄ { piece: 100, meter: 500 }; values are validated on save
+const formatUnitMinimums = (minimums: Partial<Record<QuantityUnit, number>>): string =>
+  Object.entries(minimums).map(([unit, amount]) => `${unit}: ${amount}`).join(', ');
+
+const parseUnitMinimums = (text: string): Record<string, string> =>
+  Object.fromEntries(
+    splitTerms(text).map((entry) => {
+      const [unit, amount = ''] = entry.split(/[:=]/);
+      return [unit.trim().toLowerCase(), amount.trim()];
+    })
+  );
+
+const fromDraft = (draft: ProfileDraft) => ({
+  id: draft.id,
+  name: draft.name,
+  active: draft.active,
+  autoContact: draft.autoContact,
+  enquiryKeywords: splitTerms(draft.enquiryKeywords),
+  negativeKeywords: splitTerms(draft.negativeKeywords),
+  synonymGroups: draft.synonymGroups.split('\n').map((line) => line.split(',').map((term) => term.trim()).filter(Boolean)).filter((group) => group.length),
+  fuzzyMatch: draft.fuzzyMatch,
+  requireVerifiedMobile: draft.requireVerifiedMobile,
+  requireVerifiedEmail: draft.requireVerifiedEmail,
+  requireGst: draft.requireGst,
+  includedLocations: splitTerms(draft.includedLocations),
+  excludedLocations: splitTerms(draft.excludedLocations),
+  foreignIndicators: splitTerms(draft.foreignIndicators),
+  allowedCategories: splitTerms(draft.allowedCategories),
+  preferredLocations: splitTerms(draft.preferredLocations),
+  minQuantityByUnit: parseUnitMinimums(draft.minQuantityByUnit),
+  minQuantity: draft.minQuantity,
+  minOrderValue: draft.minOrderValue,
+  minScore: draft.minScore,
+  maxAgeHours: draft.maxAgeHours,
+  minMembershipMonths: draft.minMembershipMonths,
+  maxSellersContacted: draft.maxSellersContacted.trim() === '' ? null : draft.maxSellersContacted,
+  dailyContactCap: draft.dailyContactCap,
+  scoreWeights: draft.scoreWeights,
+});
+
+// Location terms the gazetteer doesn't know only match as raw text for unresolved locations
+const LOCATION_FIELDS: ListField[] = ['includedLocations', 'excludedLocations', 'preferredLocations'];
+
+const LIST_FIELDS: { key: ListField; label: string }[] = [
+  { key: 'enquiryKeywords', label: 'Enquiry keywords (whole words in title, requirement, category or fabric)' },
+  { key: 'negativeKeywords', label: 'Negative keywords (reject if present)' },
+  { key: 'synonymGroups', label: 'Synonym groups (one group per line, e.g. uniform, unifrom, vardi)' },
+  { key: 'includedLocations', label: 'Included locations (empty = all India; e.g. state:maharashtra)' },
+  { key: 'excludedLocations', label: 'Excluded locations (e.g. district:mumbai, city:surat, pincode:400)' },
+  { key: 'foreignIndicators', label: 'Foreign indicators' },
+  { key: 'allowedCategories', label: 'Allowed categories (empty = any)' },
+  { key: 'preferredLocations', label: 'Preferred locations (score boost)' },
+  { key: 'minQuantityByUnit', label: 'Per-unit quantity minimums (e.g. piece: 100, meter: 500)' },
+];
+
+const NUMBER_FIELDS: { key: NumberField; label: string }[] = [
+  { key: 'minQuantity', label: 'Quantity above (other units)' },
+  { key: 'minOrderValue', label: 'Order value above (₹)' },
+  { key: 'minScore', label: 'Minimum score (0–100)' },
+  { key: 'maxAgeHours', label: 'Max lead age in hours (0 = any)' },
+  { key: 'minMembershipMonths', label: 'Buyer member for at least (months)' },
+  { key: 'maxSellersContacted', label: 'Max sellers already contacted (empty = any)' },
+  { key: 'dailyContactCap', label: 'Contacts per day (0 = no cap)' },
+];
+
+const BUYER_FLAGS: { key: FlagField; label: string }[] = [
+  { key: 'requireVerifiedMobile', label: 'Verified mobile' },
+  { key: 'requireVerifiedEmail', label: 'Verified email' },
+  { key: 'requireGst', label: 'GST registered' },
+];
+
+const inputClass =
+  'mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const smallButtonClass = 'px-2 py-1 text-[11px] rounded bg-slate-700 hover:bg-slate-600 text-white';
+
+export const FilterEditor: React.FC = () => {
+  const [profileSet, setProfileSet] = useState<FilterProfileSet>(DEFAULT_FILTER_PROFILES);
+  const [drafts, setDrafts] = useState<ProfileDraft[]>(DEFAULT_FILTER_PROFILES.profiles.map(toDraft));
+  const [selectedId, setSelectedId] = useState<string>(DEFAULT_FILTER_PROFILES.profiles[0].id);
+  const [editing, setEditing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const resetDrafts = (next: FilterProfileSet) => {
+    setDrafts(next.profiles.map(toDraft));
+    setSelectedId((current) => (next.profiles.some((p) => p.id === current) ? current : next.profiles[0].id));
+  };
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
+    loadFilterProfiles().then((loaded) => {
+      setProfileSet(loaded);
+      resetDrafts(loaded);
+    });
+
+    const handleChange: Parameters<typeof chrome.storage.onChanged.addListener>[0] = (changes, areaName) => {
+      if (areaName === 'local' && changes[FILTER_PROFILES_KEY]) {
+        loadFilterProfiles().then(setProfileSet);
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const save = async (input: unknown) => {
+    try {
+      const result = await saveFilterProfiles(input);
+      setErrors(result.errors);
+      if (result.profileSet) {
+        setProfileSet(result.profileSet);
+        resetDrafts(result.profileSet);
+        setEditing(false);
+        setStatus('Saved — applied to the running agent.');
+      }
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save filter profiles.']);
+    }
+  };
+
+  const updateSelected = (patch: Partial<ProfileDraft>) => {
+    setDrafts((prev) => prev.map((draft) => (draft.id === selectedId ? { ...draft, ...patch } : draft)));
+  };
+
+  const addProfile = (template?: ProfileDraft) => {
+    const id = createProfileId();
+    const base = template || toDraft({ ...DEFAULT_FILTER_CONFIG, id, name: '', active: true, autoContact: true, dailyContactCap: 0 });
+    setDrafts((prev) => [...prev, { ...base, id, name: template ? `${template.name} (copy)` : 'New profile' }]);
+    setSelectedId(id);
+  };
+
+  const deleteSelected = () => {
+    const remaining = drafts.filter((draft) => draft.id !== selectedId);
+    setDrafts(remaining);
+    setSelectedId(remaining[0].id);
+  };
+
+  if (!editing) {
+    return (
+      <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-400">
+        {profileSet.profiles.map((profile) => (
+          <div key={profile.id} className={`space-y-1 ${profile.active ? '' : 'opacity-50'}`}>
+            <div className="text-slate-200 font-semibold">
+              {profile.name}
+              <span className="ml-2 font-normal text-slate-500">
+                {profile.active ? 'active' : 'inactive'} · {profile.autoContact ? 'auto-contact' : 'tag only'}
+              </span>
+            </div>
+            <div>✓ Keywords: {profile.enquiryKeywords.join(', ') || '—'}{profile.fuzzyMatch ? ' (typos tolerated)' : ''}</div>
+            {profile.negativeKeywords.length > 0 && <div>✗ Not: {profile.negativeKeywords.join(', ')}</div>}
+            {profile.synonymGroups.length > 0 && <div>≈ Synonyms: {profile.synonymGroups.map((group) => group.join('/')).join('; ')}</div>}
+            {profile.includedLocations.length > 0 && <div>✓ Included: {profile.includedLocations.join(', ')}</div>}
+            <div>✓ Excluded: {profile.excludedLocations.join(', ') || '—'}</div>
+            <div>
+              ✓ Quantity: {Object.entries(profile.minQuantityByUnit).map(([unit, amount]) => `${unit} > ${amount}`).join(', ')}
+              {Object.keys(profile.minQuantityByUnit).length ? ', otherwise' : ''} {'>'} {profile.minQuantity} units
+            </div>
+            <div>✓ Order Value: {'>'} ₹{profile.minOrderValue.toLocaleString('en-IN')}</div>
+            {profile.maxAgeHours > 0 && <div>✓ Posted within {profile.maxAgeHours} h</div>}
+            {BUYER_FLAGS.some(({ key }) => profile[key]) && (
+              <div>✓ Buyer: {BUYER_FLAGS.filter(({ key }) => profile[key]).map(({ label }) => label).join(', ')}</div>
+            )}
+            {profile.minMembershipMonths > 0 && <div>✓ Buyer member ≥ {profile.minMembershipMonths} months</div>}
+            {profile.maxSellersContacted !== null && <div>✓ At most {profile.maxSellersContacted} sellers already contacted</div>}
+            <div>✓ Categories: {profile.allowedCategories.length ? profile.allowedCategories.join(', ') : 'Any'}</div>
+            <div>✓ Score: ≥ {profile.minScore} (weights {SCORE_SIGNALS.map((signal) => `${SIGNAL_LABELS[signal]} ${profile.scoreWeights[signal]}`).join(', ')})</div>
+          </div>
+        ))}
+        {status && <div className="text-green-400">{status}</div>}
+        <button
+          onClick={() => {
+            setStatus(null);
+            setEditing(true);
+          }}
+          className={smallButtonClass}
+        >
+          Edit Filters
+        </button>
+      </div>
+    );
+  }
+
+  const selected = drafts.find((draft) => draft.id === selectedId) || drafts[0];
+
+  return (
+    <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-300">
+      <div className="flex flex-wrap gap-1">
+        {drafts.map((draft) => (
+          <button
+            key={draft.id}
+            onClick={() => setSelectedId(draft.id)}
+            className={`px-2 py-1 text-[11px] rounded ${draft.id === selected.id ? 'bg-indigo-700 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+          >
+            {draft.name || 'Untitled'}
+          </button>
+        ))}
+        <button onClick={() => addProfile()} className={smallButtonClass}>+ Add</button>
+        <button onClick={() => addProfile(selected)} className={smallButtonClass}>Duplicate</button>
+        {drafts.length > 1 && (
+          <button onClick={deleteSelected} className="px-2 py-1 text-[11px] rounded bg-red-700 hover:bg-red-600 text-white">Delete</button>
+        )}
+      </div>
+      <label className="block">
+        <span className="text-slate-400">Profile name</span>
+        <input value={selected.name} onChange={(e) => updateSelected({ name: e.target.value })} className={inputClass} />
+      </label>
+      <div className="flex gap-4">
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={selected.active} onChange={(e) => updateSelected({ active: e.target.checked })} />
+          Active
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={selected.autoContact} onChange={(e) => updateSelected({ autoContact: e.target.checked })} />
+          Auto-contact matches
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={selected.fuzzyMatch} onChange={(e) => updateSelected({ fuzzyMatch: e.target.checked })} />
+          Tolerate typos
+        </label>
+      </div>
+      {LIST_FIELDS.map(({ key, label }) => (
+        <label key={key} className="block">
+          <span className="text-slate-400">{label}</span>
+          <textarea value={selected[key]} onChange={(e) => updateSelected({ [key]: e.target.value })} rows={key === 'synonymGroups' ? 4 : 2} className={inputClass} />
+          {LOCATION_FIELDS.includes(key) && splitTerms(selected[key]).some((term) => !isKnownLocationTerm(term)) && (
+            <span className="text-amber-400">
+              Not in gazetteer: {splitTerms(selected[key]).filter((term) => !isKnownLocationTerm(term)).join(', ')}
+            </span>
+          )}
+        </label>
+      ))}
+      <div className="grid grid-cols-2 gap-2">
+        {NUMBER_FIELDS.map(({ key, label }) => (
+          <label key={key} className="block">
+            <span className="text-slate-400">{label}</span>
+            <input type="number" min={0} value={selected[key]} onChange={(e) => updateSelected({ [key]: e.target.value })} className={inputClass} />
+          </label>
+        ))}
+      </div>
+      <div>
+        <span className="text-slate-400">Require buyer badges</span>
+        <div className="flex gap-4">
+          {BUYER_FLAGS.map(({ key, label }) => (
+            <label key={key} className="flex items-center gap-1">
+              <input type="checkbox" checked={selected[key]} onChange={(e) => updateSelected({ [key]: e.target.checked })} />
+              {label}
+            </label>
+          ))}
+        </div>
+      </div>
+      <div>
+        <span className="text-slate-400">Score weights</span>
+        <div className="grid grid-cols-3 gap-2">
+          {SCORE_SIGNALS.map((signal) => (
+            <label key={signal} className="block">
+              <span className="text-slate-500">{SIGNAL_LABELS[signal]}</span>
+              <input
+                type="number"
+                min={0}
+                value={selected.scoreWeights[signal]}
+                onChange={(e) => updateSelected({ scoreWeights: { ...selected.scoreWeights, [signal]: e.target.value } })}
+                className={inputClass}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+      {errors.length > 0 && (
+        <ul className="p-2 bg-red-900/20 rounded text-red-400 space-y-0.5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+      <div className="flex gap-2">
+        <button
+          onClick={() => save({ profiles: drafts.map(fromDraft) })}
+          className="px-2 py-1 text-[11px] rounded bg-indigo-700 hover:bg-indigo-600 text-white"
+        >
+          Save
+        </button>
+        <button onClick={() => save(DEFAULT_FILTER_PROFILES)} className={smallButtonClass}>
+          Reset to defaults
+        </button>
+        <button
+          onClick={() => {
+            resetDrafts(profileSet);
+            setErrors([]);
+            setEditing(false);
+          }}
+          className={smallButtonClass}
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
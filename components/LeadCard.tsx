@@ -1,13 +1,19 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import type { Lead } from '../types';
+import { formatQuantity } from '../lib/quantity';
+import { formatRupeeRange } from '../lib/currency';
+import { formatAge } from '../lib/freshness';
+import { formatBuyerTrust } from '../lib/buyerTrust';
 
 interface LeadCardProps {
   lead: Lead;
 }
 
 export const LeadCard: React.FC<LeadCardProps> = ({ lead }) => {
-  
+  const [showTrace, setShowTrace] = useState(false);
+  const failedRules = lead.filterTrace?.reduce((count, profile) => count + profile.rules.filter((rule) => !rule.passed).length, 0) ?? 0;
+
   return (
     <div className={`rounded-lg shadow-md overflow-hidden border transition-all duration-300 hover:shadow-indigo-500/20 ${
       lead.autoContacted ? 'bg-green-900/20 border-green-700' : 
@@ -23,6 +29,20 @@ export const LeadCard: React.FC<LeadCardProps> = ({ lead }) => {
             )}
           </div>
           <div className="flex items-center gap-2">
+            {typeof lead.score === 'number' && (
+              <span
+                className={`text-xs font-bold px-2 py-1 rounded ${
+                  lead.score >= 75 ? 'bg-emerald-600' : lead.score >= 50 ? 'bg-amber-600' : 'bg-slate-600'
+                } text-white`}
+              >
+                {lead.score}
+              </span>
+            )}
+            {lead.profileName && (
+              <span className="text-xs bg-purple-700 text-white px-2 py-1 rounded">
+                {lead.profileName}
+              </span>
+            )}
             {lead.autoContacted && (
               <span className="text-xs bg-green-600 text-white px-2 py-1 rounded">
                 ✓ Contacted
@@ -41,18 +61,18 @@ export const LeadCard: React.FC<LeadCardProps> = ({ lead }) => {
         <div className="grid grid-cols-2 gap-2 mb-3">
           {lead.quantity && (
             <div className="text-xs text-slate-400">
-              <span className="text-slate-500">Qty:</span> {lead.quantity} units
+              <span className="text-slate-500">Qty:</span>{' '}
+              {formatQuantity(lead.quantityMin ?? lead.quantity, lead.quantityMax, lead.quantityUnit, lead.quantityUnitRaw)}
             </div>
           )}
           {(lead.probableOrderValueMin || lead.probableOrderValueMax || lead.probableOrderValueRaw) && (
             <div className="text-xs text-slate-400">
               <span className="text-slate-500">Value:</span>{' '}
-              {lead.probableOrderValueMin && lead.probableOrderValueMax && lead.probableOrderValueMin !== lead.probableOrderValueMax ? (
-                <>{`₹${lead.probableOrderValueMin.toLocaleString()} – ₹${lead.probableOrderValueMax.toLocaleString()}`}</>
-              ) : lead.probableOrderValueMin ? (
-                <>₹{lead.probableOrderValueMin.toLocaleString()}</>
-              ) : (
-                <>{lead.probableOrderValueRaw}</>
+              <span title={lead.probableOrderValueRaw}>
+                {formatRupeeRange(lead.probableOrderValueMin, lead.probableOrderValueMax) || lead.probableOrderValueRaw}
+              </span>
+              {lead.probableOrderValueConfidence && lead.probableOrderValueConfidence !== 'high' && (
+                <span className="text-amber-400"> ({lead.probableOrderValueConfidence === 'low' ? 'unparsed' : 'approx.'})</span>
               )}
             </div>
           )}
@@ -66,15 +86,86 @@ export const LeadCard: React.FC<LeadCardProps> = ({ lead }) => {
               <span className="text-slate-500">Fabric:</span> {lead.fabric}
             </div>
           )}
+          {lead.usage && (
+            <div className="text-xs text-slate-400 col-span-2">
+              <span className="text-slate-500">Usage:</span> {lead.usage}
+            </div>
+          )}
+          {lead.preferredSupplierLocation && (
+            <div className="text-xs text-slate-400 col-span-2">
+              <span className="text-slate-500">Supplier from:</span> {lead.preferredSupplierLocation}
+            </div>
+          )}
+          {lead.deliveryTimeline && (
+            <div className="text-xs text-slate-400 col-span-2">
+              <span className="text-slate-500">Delivery:</span> {lead.deliveryTimeline}
+            </div>
+          )}
         </div>
         
+        {lead.scoreBreakdown && lead.scoreBreakdown.length > 0 && (
+          <div className="grid grid-cols-3 gap-1 mb-3 text-[11px] text-slate-400">
+            {lead.scoreBreakdown.map((component) => (
+              <div key={component.signal} title={component.detail}>
+                <span className="text-slate-500">{component.signal}:</span> {component.points}
+              </div>
+            ))}
+          </div>
+        )}
+        
         <div className="space-y-1 text-xs text-slate-400">
-          <div>📍 {lead.location}</div>
-          <div>📅 {lead.timestamp}</div>
+          <div>
+            📍 {lead.location}
+            {lead.state && (
+              <span className="text-slate-500"> ({[lead.district, lead.state].filter(Boolean).join(', ')})</span>
+            )}
+          </div>
+          {formatBuyerTrust(lead.buyerTrust) && <div>🛡️ {formatBuyerTrust(lead.buyerTrust)}</div>}
+          <div>
+            📅 {lead.timestamp}
+            {lead.postedAt !== undefined && !/ago|now/i.test(lead.timestamp) && (
+              <span className="text-slate-500"> ({formatAge(lead.postedAt, lead.postedAtPrecision)})</span>
+            )}
+          </div>
           {lead.contactedAt && (
             <div className="mt-1 text-green-400">Contacted at: {new Date(lead.contactedAt).toLocaleTimeString()}</div>
           )}
         </div>
+
+        {lead.filterTrace && lead.filterTrace.length > 0 && (
+          <div className="mt-3 text-xs">
+            <button
+              onClick={() => setShowTrace((v) => !v)}
+              className="text-slate-400 hover:text-slate-300 transition-colors"
+            >
+              {showTrace ? '▼' : '▶'} Rule trace ({failedRules ? `${failedRules} failed` : 'all passed'})
+            </button>
+            {showTrace && (
+              <div className="mt-2 space-y-2">
+                {lead.filterReason && <div className="text-slate-400">{lead.filterReason}</div>}
+                {lead.filterTrace.map((profile) => (
+                  <div key={profile.profileId} className="p-2 bg-slate-900/60 rounded">
+                    <div className={`font-semibold mb-1 ${profile.passed ? 'text-green-400' : 'text-slate-300'}`}>
+                      {profile.passed ? '✓' : '✗'} {profile.profileName} <span className="font-normal text-slate-500">score {profile.score}</span>
+                    </div>
+                    <table className="w-full text-[11px]">
+                      <tbody>
+                        {profile.rules.map((rule) => (
+                          <tr key={rule.ruleId} className={rule.passed ? 'text-slate-400' : 'text-red-400'}>
+                            <td className="pr-1 align-top">{rule.passed ? '✓' : '✗'}</td>
+                            <td className="pr-2 align-top whitespace-nowrap">{rule.ruleId}</td>
+                            <td className="pr-2 align-top break-all">{rule.value}</td>
+                            <td className="align-top text-slate-500">{rule.threshold}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -3,6 +3,7 @@ import React, { useEffect, useRef, useState } from 'react';
 
 const SUMMARIES_KEY = 'indiamart_summaries';
 const DIAGNOSTICS_KEY = 'indiamart_diagnostics';
+const EVENTS_KEY = 'indiamart_events';
 
 interface LogsPanelProps {
   onClose?: () => void;
@@ -11,22 +12,26 @@ interface LogsPanelProps {
 export const LogsPanel: React.FC<LogsPanelProps> = ({ onClose }) => {
   const [summaries, setSummaries] = useState<string[]>([]);
   const [diagnostics, setDiagnostics] = useState<string>('');
+  const [events, setEvents] = useState<string[]>([]);
   const [filter, setFilter] = useState<string>('');
   const [autoScroll, setAutoScroll] = useState<boolean>(true);
   const [paused, setPaused] = useState<boolean>(false);
   const [showHistory, setShowHistory] = useState<boolean>(false);
   const [showDiagnostics, setShowDiagnostics] = useState<boolean>(false);
+  const [showEvents, setShowEvents] = useState<boolean>(false);
   const [lastUpdated, setLastUpdated] = useState<number>(Date.now());
   const containerRef = useRef<HTMLDivElement>(null);
 
   const loadLogs = () => {
     if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
-    chrome.storage.local.get([SUMMARIES_KEY, DIAGNOSTICS_KEY], (result) => {
+    chrome.storage.local.get([SUMMARIES_KEY, DIAGNOSTICS_KEY, EVENTS_KEY], (result) => {
       const sums: string[] = Array.isArray(result[SUMMARIES_KEY]) ? result[SUMMARIES_KEY] : [];
       const diag: string = result[DIAGNOSTICS_KEY] || '';
+      const evts: string[] = Array.isArray(result[EVENTS_KEY]) ? result[EVENTS_KEY] : [];
       if (!paused) {
         setSummaries(sums);
         setDiagnostics(diag);
+        setEvents(evts);
         setLastUpdated(Date.now());
       }
     });
@@ -48,6 +53,10 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ onClose }) => {
           setDiagnostics(changes[DIAGNOSTICS_KEY].newValue || '');
           setLastUpdated(Date.now());
         }
+        if (changes[EVENTS_KEY]) {
+          setEvents(Array.isArray(changes[EVENTS_KEY].newValue) ? changes[EVENTS_KEY].newValue : []);
+          setLastUpdated(Date.now());
+        }
       };
       chrome.storage.onChanged.addListener(handleChange);
 
@@ -70,11 +79,11 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ onClose }) => {
     if (autoScroll && containerRef.current) {
       containerRef.current.scrollTop = containerRef.current.scrollHeight;
     }
-  }, [summaries, diagnostics, showHistory, showDiagnostics, autoScroll]);
+  }, [summaries, diagnostics, events, showHistory, showDiagnostics, showEvents, autoScroll]);
 
   const clearLogs = () => {
     if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
-    chrome.storage.local.set({ [SUMMARIES_KEY]: [], [DIAGNOSTICS_KEY]: '' }, () => loadLogs());
+    chrome.storage.local.set({ [SUMMARIES_KEY]: [], [DIAGNOSTICS_KEY]: '', [EVENTS_KEY]: [] }, () => loadLogs());
   };
 
   const exportLogs = () => {
@@ -83,7 +92,10 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ onClose }) => {
       ...(summaries.length ? summaries : ['<none>']),
       '',
       '=== Diagnostics ===',
-      diagnostics || '<none>'
+      diagnostics || '<none>',
+      '',
+      '=== Agent Events ===',
+      ...(events.length ? events : ['<none>'])
     ].join('\n');
     const blob = new Blob([body], { type: 'text/plain;charset=utf-8' });
     const url = URL.createObjectURL(blob);
@@ -138,9 +150,13 @@ export const LogsPanel: React.FC<LogsPanelProps> = ({ onClose }) => {
           <input type="checkbox" checked={showDiagnostics} onChange={(e) => setShowDiagnostics(e.target.checked)} />
           Show diagnostics
         </label>
+        <label className="flex items-center gap-1 text-[11px] text-slate-300">
+          <input type="checkbox" checked={showEvents} onChange={(e) => setShowEvents(e.target.checked)} />
+          Show events
+        </label>
       </div>
       <div ref={containerRef} className="h-64 overflow-auto bg-slate-950 border border-slate-800 rounded p-2 text-[11px] whitespace-pre-wrap">
-        {showDiagnostics ? (diagnostics || 'No diagnostics.') : (mainText)}
+        {showEvents ? (events.join('\n') || 'No agent events.') : showDiagnostics ? (diagnostics || 'No diagnostics.') : (mainText)}
       </div>
     </div>
   );
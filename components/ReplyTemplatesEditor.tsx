@@ -0,0 +1,151 @@
+/// <reference types="chrome" />
+import React, { useEffect, useState } from 'react';
+import type { FilterProfile, ReplyTemplate, ReplyTemplateSet } from '../types';
+import { loadFilterProfiles } from '../lib/filterConfig';
+import {
+  DEFAULT_REPLY_TEMPLATES,
+  REPLY_TEMPLATES_KEY,
+  REPLY_VARIABLES,
+  SAMPLE_REPLY_BODY,
+  loadReplyTemplates,
+  saveReplyTemplates,
+} from '../lib/replyTemplates';
+
+const smallButtonClass = 'px-2 py-1 text-[11px] rounded bg-slate-700 hover:bg-slate-600 text-white';
+const inputClass =
+  'mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-indigo-500';
+
+// Categories are edited as comma-separated text and split on save
+type TemplateDraft = Omit<ReplyTemplate, 'categories'> & { categories: string };
+
+const toDrafts = (templateSet: ReplyTemplateSet): TemplateDraft[] =>
+  templateSet.templates.map((template) => ({ ...template, categories: template.categories.join(', ') }));
+
+export const ReplyTemplatesEditor: React.FC = () => {
+  const [drafts, setDrafts] = useState<TemplateDraft[]>(toDrafts(DEFAULT_REPLY_TEMPLATES));
+  const [defaultTemplateId, setDefaultTemplateId] = useState<string | null>(DEFAULT_REPLY_TEMPLATES.defaultTemplateId);
+  const [profiles, setProfiles] = useState<FilterProfile[]>([]);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const reload = () =>
+    loadReplyTemplates().then((loaded) => {
+      setDrafts(toDrafts(loaded));
+      setDefaultTemplateId(loaded.defaultTemplateId);
+    });
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
+    reload();
+    loadFilterProfiles().then((profileSet) => setProfiles(profileSet.profiles));
+
+    const handleChange: Parameters<typeof chrome.storage.onChanged.addListener>[0] = (changes, areaName) => {
+      if (areaName === 'local' && REPLY_TEMPLATES_KEY in changes) {
+        reload();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const updateDraft = (index: number, changes: Partial<TemplateDraft>) =>
+    setDrafts(drafts.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+
+  const toggleProfile = (index: number, profileId: string, checked: boolean) => {
+    const { profileIds } = drafts[index];
+    updateDraft(index, { profileIds: checked ? [...profileIds, profileId] : profileIds.filter((id) => id !== profileId) });
+  };
+
+  const save = async () => {
+    try {
+      const result = await saveReplyTemplates({
+        templates: drafts.map((draft) => ({ ...draft, categories: draft.categories.split(',') })),
+        defaultTemplateId,
+      });
+      setErrors(result.errors);
+      setStatus(result.templateSet ? 'Saved — used from the next queued contact.' : null);
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save reply templates.']);
+    }
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-300">
+      <p className="text-slate-400">
+        Picked by the lead's category, then its profile, then the default. Placeholders:{' '}
+        {Object.keys(REPLY_VARIABLES).map((key) => `{${key}}`).join(' ')}
+      </p>
+      {drafts.map((draft, index) => (
+        <div key={draft.id || index} className="p-2 border border-slate-700 rounded space-y-1">
+          <div className="flex items-center gap-1">
+            <input value={draft.name} onChange={(e) => updateDraft(index, { name: e.target.value })} placeholder="Name" className={`${inputClass} mt-0`} />
+            <label className="flex items-center gap-1 whitespace-nowrap text-slate-400">
+              <input
+                type="radio"
+                name="default-reply-template"
+                checked={Boolean(draft.id) && draft.id === defaultTemplateId}
+                disabled={!draft.id}
+                onChange={() => setDefaultTemplateId(draft.id)}
+              />
+              Default
+            </label>
+            <button
+              onClick={() => {
+                if (draft.id === defaultTemplateId) setDefaultTemplateId(null);
+                setDrafts(drafts.filter((_, i) => i !== index));
+              }}
+              className={smallButtonClass}
+              title="Remove template"
+            >
+              ✕
+            </button>
+          </div>
+          <textarea value={draft.body} onChange={(e) => updateDraft(index, { body: e.target.value })} rows={5} className={inputClass} />
+          <label className="block">
+            <span className="text-slate-400">Categories (comma-separated)</span>
+            <input value={draft.categories} onChange={(e) => updateDraft(index, { categories: e.target.value })} className={inputClass} />
+          </label>
+          {profiles.length > 0 && (
+            <div className="flex flex-wrap gap-2 text-slate-400">
+              Profiles:
+              {profiles.map((profile) => (
+                <label key={profile.id} className="flex items-center gap-1">
+                  <input
+                    type="checkbox"
+                    checked={draft.profileIds.includes(profile.id)}
+                    onChange={(e) => toggleProfile(index, profile.id, e.target.checked)}
+                  />
+                  {profile.name}
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+      <div className="flex gap-2">
+        <button
+          onClick={() => setDrafts([...drafts, { id: '', name: '', body: SAMPLE_REPLY_BODY, categories: '', profileIds: [] }])}
+          className={smallButtonClass}
+        >
+          Add template
+        </button>
+        {defaultTemplateId && (
+          <button onClick={() => setDefaultTemplateId(null)} className={smallButtonClass} title="Unmatched leads keep IndiaMART's pre-filled reply">
+            No default
+          </button>
+        )}
+      </div>
+      {errors.length > 0 && (
+        <ul className="p-2 bg-red-900/20 rounded text-red-400 space-y-0.5">
+          {errors.map((err) => (
+            <li key={err}>{err}</li>
+          ))}
+        </ul>
+      )}
+      <button onClick={save} className="px-2 py-1 text-[11px] rounded bg-indigo-700 hover:bg-indigo-600 text-white">
+        Save
+      </button>
+      {status && <div className="text-green-400">{status}</div>}
+    </div>
+  );
+};
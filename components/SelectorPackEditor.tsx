@@ -0,0 +1,188 @@
+/// <reference types="chrome" />
+import React, { useEffect, useState } from 'react';
+import type { ExtractionHealth, SelectorPack } from '../types';
+import { DEFAULT_SELECTOR_PACK, SELECTOR_PACK_OVERRIDE_KEY, loadSelectorPack, saveSelectorPackOverride } from '../lib/selectorPack';
+import { CRITICAL_FIELDS, HEALTH_FIELDS, MIN_FIELD_COVERAGE } from '../lib/extractionHealth';
+
+interface SelectorPackEditorProps {
+  health: ExtractionHealth | null;
+  pausedReason: string | null;
+}
+
+const inputClass =
+  'mt-1 w-full bg-slate-800 border border-slate-700 rounded px-2 py-1 font-mono text-[11px] focus:outline-none focus:ring-2 focus:ring-indigo-500';
+const smallButtonClass = 'px-2 py-1 text-[11px] rounded bg-slate-700 hover:bg-slate-600 text-white';
+
+// The override is edited as JSON; only the keys it names replace the bundled pack's
+const EXAMPLE_OVERRIDE = JSON.stringify({ fields: { companyName: ['.new-buyer-name'] } }, null, 2);
+
+export const SelectorPackEditor: React.FC<SelectorPackEditorProps> = ({ health, pausedReason }) => {
+  const [pack, setPack] = useState<SelectorPack>(DEFAULT_SELECTOR_PACK);
+  const [hasOverride, setHasOverride] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [status, setStatus] = useState<string | null>(null);
+  const [capturing, setCapturing] = useState(false);
+
+  const reload = () =>
+    loadSelectorPack().then(({ pack: loaded, override }) => {
+      setPack(loaded);
+      setHasOverride(Boolean(override));
+      setDraft(override ? JSON.stringify(override, null, 2) : '');
+    });
+
+  useEffect(() => {
+    if (typeof chrome === 'undefined' || !chrome.storage?.local) return;
+    reload();
+
+    const handleChange: Parameters<typeof chrome.storage.onChanged.addListener>[0] = (changes, areaName) => {
+      if (areaName === 'local' && SELECTOR_PACK_OVERRIDE_KEY in changes) {
+        reload();
+      }
+    };
+    chrome.storage.onChanged.addListener(handleChange);
+    return () => chrome.storage.onChanged.removeListener(handleChange);
+  }, []);
+
+  const save = async (text: string) => {
+    let input: unknown = null;
+    if (text.trim()) {
+      try {
+        input = JSON.parse(text);
+      } catch (error) {
+        setErrors([`Not valid JSON: ${error instanceof Error ? error.message : String(error)}`]);
+        return;
+      }
+    }
+    try {
+      const result = await saveSelectorPackOverride(input);
+      setErrors(result.errors);
+      if (result.pack) {
+        setEditing(false);
+        setStatus(result.override ? 'Override saved — the agent re-scrapes with it now.' : 'Using the bundled selector pack.');
+        await reload();
+      }
+    } catch (error) {
+      setErrors([error instanceof Error ? error.message : 'Failed to save selector override.']);
+    }
+  };
+
+  // Masked copy of the current cards, downloadable as a replay fixture
+  const captureSnapshot = () => {
+    if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) return;
+    setCapturing(true);
+    setStatus(null);
+    chrome.runtime.sendMessage({ type: 'CAPTURE_SNAPSHOT' }, (response) => {
+      setCapturing(false);
+      if (chrome.runtime.lastError || !response?.success) {
+        setErrors([response?.error || chrome.runtime.lastError?.message || 'Failed to capture snapshot.']);
+        return;
+      }
+      const blob = new Blob([response.html], { type: 'text/html;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = response.fileName;
+      a.click();
+      // Revoking in the same task can cancel the download before Chrome starts it
+      setTimeout(() => URL.revokeObjectURL(url), 0);
+      setErrors([]);
+      setStatus(`Saved ${response.fileName} (${response.cards} cards, buyer details masked). Put it in fixtures/ and run npm run replay.`);
+    });
+  };
+
+  return (
+    <div className="mt-2 p-2 bg-slate-900/50 rounded text-xs space-y-2 text-slate-300">
+      <div className="flex justify-between items-center">
+        <span>
+          Selector pack <span className="font-mono">{pack.revision}</span>
+          {hasOverride && <span className="text-amber-400"> (custom override)</span>}
+        </span>
+        <div className="flex gap-2">
+          <button onClick={captureSnapshot} disabled={capturing} className={smallButtonClass}>
+            {capturing ? 'Capturing…' : 'Capture Snapshot'}
+          </button>
+          {!editing && (
+            <button onClick={() => { setEditing(true); setStatus(null); }} className={smallButtonClass}>
+              Edit Selectors
+            </button>
+          )}
+        </div>
+      </div>
+
+      {pausedReason && <div className="p-2 bg-red-900/30 rounded text-red-400">Auto-contact paused: {pausedReason}</div>}
+
+      {health ? (
+        <div>
+          <div className="text-slate-400">
+            Last scrape: {health.cards} cards at {new Date(health.checkedAt).toLocaleTimeString()}
+            {health.healthy ? <span className="text-green-400"> — healthy</span> : <span className="text-red-400"> — degraded</span>}
+          </div>
+          <div className="grid grid-cols-2 gap-x-3">
+            {HEALTH_FIELDS.map((field) => {
+              const share = health.coverage[field];
+              const critical = CRITICAL_FIELDS.includes(field);
+              const low = critical && share < MIN_FIELD_COVERAGE;
+              return (
+                <div key={field} className="flex justify-between">
+                  <span className={critical ? 'text-slate-300' : 'text-slate-500'}>{field}</span>
+                  <span className={low ? 'text-red-400' : 'text-slate-300'}>{Math.round(share * 100)}%</span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ) : (
+        <div className="text-slate-500">No scrape reported yet.</div>
+      )}
+
+      {!editing && errors.length > 0 && <div className="p-2 bg-red-900/20 rounded text-red-400">{errors.join(' ')}</div>}
+
+      {editing && (
+        <>
+          <label className="block">
+            <span className="text-slate-400">Override JSON (leadCards, shadowHosts, showMore, resultCount, resultList, fields, inputs, tableLabels, detail; empty = bundled pack)</span>
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              rows={8}
+              placeholder={EXAMPLE_OVERRIDE}
+              className={inputClass}
+            />
+          </label>
+          <details>
+            <summary className="cursor-pointer text-slate-400">Bundled pack</summary>
+            <pre className="mt-1 max-h-40 overflow-auto text-[10px] text-slate-500">{JSON.stringify(DEFAULT_SELECTOR_PACK, null, 2)}</pre>
+          </details>
+          {errors.length > 0 && (
+            <ul className="p-2 bg-red-900/20 rounded text-red-400 space-y-0.5">
+              {errors.map((err) => (
+                <li key={err}>{err}</li>
+              ))}
+            </ul>
+          )}
+          <div className="flex gap-2">
+            <button onClick={() => save(draft)} className="px-2 py-1 text-[11px] rounded bg-indigo-700 hover:bg-indigo-600 text-white">
+              Save
+            </button>
+            <button onClick={() => save('')} className={smallButtonClass}>
+              Use bundled pack
+            </button>
+            <button
+              onClick={() => {
+                reload();
+                setErrors([]);
+                setEditing(false);
+              }}
+              className={smallButtonClass}
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+      {status && <div className="text-green-400">{status}</div>}
+    </div>
+  );
+};
@@ -1,5 +1,18 @@
 /// <reference types="chrome" />
-import type { Lead } from './types';
+import type { AgentSettings, ContactFailureReason, ExtractionHealth, FilterProfileSet, Lead, SelectorPack } from './types';
+import { DEFAULT_FILTER_PROFILES, FILTER_PROFILES_KEY, loadFilterProfiles, validateFilterProfiles } from './lib/filterConfig';
+import { cardContentHash, extractLead, findLeadCards, findShowMoreControl, pageListsLeads, sanitizeOptional } from './lib/scraper';
+import { annotateLead } from './lib/filterEngine';
+import type { ProfileEvaluation } from './lib/filterEngine';
+import { DEFAULT_SELECTOR_PACK, SELECTOR_PACK_OVERRIDE_KEY, loadSelectorPack, validateSelectorPackOverride } from './lib/selectorPack';
+import { FEED_CARD_COUNTS_KEY, MIN_HEALTH_SAMPLE, buildExtractionHealth, formatDegradedFields } from './lib/extractionHealth';
+import { buildPageSnapshot } from './lib/snapshot';
+import { AGENT_SETTINGS_KEY, DEFAULT_AGENT_SETTINGS, loadAgentSettings, validateAgentSettings } from './lib/agentSettings';
+import { UNLISTED_FEED_ID, UNLISTED_FEED_LABEL, matchFeed } from './lib/feeds';
+import { extractLeadDetails, findDetailClose, findDetailToggle, isEnrichmentCandidate, listDetailPanels, mergeLeadDetails } from './lib/leadDetails';
+import type { LeadDetails } from './lib/leadDetails';
+import { checkContactOutcome, isCardMarkedContacted, readCreditBalance, snapshotContactNotices } from './lib/contactVerification';
+import type { ContactVerification } from './lib/contactVerification';
 
 // Wrap everything in an IIFE to prevent redeclaration errors
 (() => {
@@ -15,47 +28,61 @@ import type { Lead } from './types';
   (window as any)[GLOBAL_FLAG] = true;
   console.log('IndiaMART Agent: Content script initializing...');
 
-  const LEAD_CARD_SELECTORS = [
-    'div.f1.lstNw',
-    'div.lstNw.lstNwDflx',
-    'div.lstNw.BUY_pr',
-    'div.bl-itm',
-    'div[class*="lead-card"]',
-    'li[class*="lead-card"]',
-    'div[data-card-type="lead"]',
-    '[data-testid*="lead"]',
-    '.lead-card',
-    '.blk-txn-card',
-  ];
   const CONTACT_BUTTON_TEXT = 'Contact Buyer Now';
   const SEND_REPLY_TEXT = 'Send Reply';
   const SEND_REPLY_SELECTOR = '.btn-latest';
+  const REPLY_BOX_SELECTOR = 'textarea, [contenteditable="true"]';
+  const REPLY_FORM_SELECTOR = 'form, [role="dialog"], .modal, [class*="popup"]';
+  const CONTACT_VERIFY_TIMEOUT_MS = 12000;
+  const CONTACT_VERIFY_INTERVAL_MS = 300;
   const SCRAPE_INTERVAL_MS = 1000;
   const SCRAPE_MAX_ATTEMPTS = 15;
   const REFRESH_INTERVAL = 30 * 1000; // 30 seconds
+  const FEED_MUTATION_DEBOUNCE_MS = 750;
+  const QUIET_RELOAD_JITTER = 0.25; // quiet-period reloads land up to 25% late, never on a fixed beat
+  const HARVEST_STEP_DELAY_MIN = 1500;
+  const HARVEST_STEP_DELAY_MAX = 4500;
+  const HARVEST_LOAD_TIMEOUT_MS = 8000;
+  const ENRICH_OPEN_TIMEOUT_MS = 5000;
+  const ENRICH_READ_DELAY_MIN = 2000;
+  const ENRICH_READ_DELAY_MAX = 6000;
   const MIN_CONTACT_DELAY = 10 * 1000; // 10 seconds
   const MAX_CONTACT_DELAY = 5 * 60 * 1000; // 5 minutes
   const CONTACT_REPLY_DELAY_MIN = 4 * 60 * 1000; // 4 minutes (legacy, unused)
   const CONTACT_REPLY_DELAY_MAX = 6 * 60 * 1000; // 6 minutes (legacy, unused)
-  // New: wait BEFORE contacting (randomized 5–15 minutes), then send immediately
-  const PRE_CONTACT_DELAY_MIN = 5 * 60 * 1000; // 5 minutes
-  const PRE_CONTACT_DELAY_MAX = 15 * 60 * 1000; // 15 minutes
   const MAX_CONTACT_GAP = 15 * 60 * 1000; // 15 minutes
   
   // State management
   let isAutoContactEnabled = false;
   let isStopped = false;
-  let lastContactTime = 0;
-  let processedLeads = new Set<string>();
+  // Leads the background accepted into its contact queue; they still count as filtered, but aren't sent again
+  const queuedLeads = new Set<string>();
   let pageRefreshTimer: ReturnType<typeof setTimeout> | null = null;
   let periodicProcessInterval: ReturnType<typeof setInterval> | null = null;
   let filteredLeadsCount = 0;
-  let contactedLeadsCount = 0;
   let pendingContacts: Lead[] = [];
   let hasLoggedNoLeadCards = false;
+  // Set once the initial scrape loop found cards or gave up; before that an empty page may still be rendering
+  let initialScrapeSettled = false;
   let lastRefreshTime = 0;
   let lastProcessingTime = Date.now();
+  let contactInProgress = false; // defers page refreshes while a queued contact is running
+  let contactClickedAt: number | undefined; // when the running contact clicked Contact Buyer Now
+  let filterProfiles: FilterProfileSet = DEFAULT_FILTER_PROFILES;
+  let selectorPack: SelectorPack = DEFAULT_SELECTOR_PACK;
   let isTabVisible = !document.hidden;
+  let agentSettings: AgentSettings = DEFAULT_AGENT_SETTINGS;
+  // Extracted and filtered cards by content hash; a card is only re-read when its content changes
+  let cardCache = new Map<string, { lead: Lead; evaluation: ProfileEvaluation }>();
+  let lastNewLeadTime = Date.now();
+  let feedObserver: MutationObserver | null = null;
+  let observedFeedRoots = new WeakSet<Node>();
+  let feedMutationTimer: ReturnType<typeof setTimeout> | null = null;
+  let harvesting = false;
+  // Detail-view enrichment: details by leadId, merged into every later extraction of that lead
+  let enriching = false;
+  const enrichedDetails = new Map<string, LeadDetails>();
+  const enrichmentAttempted = new Set<string>();
 
   const syncAutoContactState = () => {
     if (typeof chrome === 'undefined' || !chrome.runtime?.sendMessage) {
@@ -86,65 +113,6 @@ import type { Lead } from './types';
     });
   };
 
-  const sanitize = (value?: string | null): string => (value || '').trim();
-  const sanitizeOptional = (value?: string | null): string | undefined => {
-    const cleaned = sanitize(value);
-    return cleaned || undefined;
-  };
-
-  const getInputValue = (root: Document | Element | ShadowRoot, selector: string): string | undefined => {
-    const input = root.querySelector<HTMLInputElement>(selector);
-    return sanitizeOptional(input?.value);
-  };
-
-  const getTableValue = (root: Element, label: string): string | undefined => {
-    const normalized = label.trim().toLowerCase();
-    const rows = Array.from(root.querySelectorAll<HTMLTableRowElement>('tr'));
-    for (const row of rows) {
-      const cells = Array.from(row.querySelectorAll<HTMLTableCellElement>('td'));
-      if (!cells.length) continue;
-      const heading = sanitize(cells[0]?.textContent).replace(/[:：]/g, '').toLowerCase();
-      if (!heading) continue;
-      if (heading === normalized || heading.includes(normalized)) {
-        const valueCell = cells.slice(1).find((cell) => sanitize(cell.textContent)) || cells[1] || cells[0];
-        if (!valueCell) continue;
-        const rawValue =
-          valueCell.querySelector('b, strong')?.textContent ||
-          valueCell.textContent ||
-          '';
-        const cleaned = sanitize(rawValue.replace(/^[:：\s]+/, ''));
-        if (cleaned) {
-          return cleaned;
-        }
-      }
-    }
-    return undefined;
-  };
-
-  const parseQuantity = (value?: string | null): { raw?: string; quantity?: number } => {
-    if (!value) return {};
-    const raw = sanitize(value);
-    const digits = raw.replace(/[^0-9.]/g, '');
-    const quantity = digits ? Number(digits) : undefined;
-    return {
-      raw,
-      quantity: typeof quantity === 'number' && Number.isFinite(quantity) ? quantity : undefined,
-    };
-  };
-
-  const parseRupeeRange = (value?: string | null): { raw?: string; min?: number; max?: number } => {
-    if (!value) return {};
-    const raw = sanitize(value);
-    const cleaned = raw.replace(/[^0-9.,-]/g, '');
-    const parts = cleaned
-      .split(/[-–]/)
-      .map((part) => Number(part.replace(/[,]/g, '')))
-      .filter((num) => !Number.isNaN(num));
-    const min = parts[0];
-    const max = parts.length > 1 ? parts[1] : parts[0];
-    return { raw, min, max };
-  };
-
   const describeContext = (ctx: Document | ShadowRoot, index: number): string => {
     if (ctx === document) return 'document';
     const ownerNode = (ctx as ShadowRoot).host;
@@ -152,6 +120,10 @@ import type { Lead } from './types';
       const id = (ownerNode as HTMLElement).id ? `#${(ownerNode as HTMLElement).id}` : ownerNode.tagName.toLowerCase();
       return `shadow-root(${id})`;
     }
+    const frame = (ctx as Document).defaultView?.frameElement;
+    if (frame) {
+      return frame.id ? `iframe#${frame.id}` : 'iframe';
+    }
     return `context-${index}`;
   };
 
@@ -171,7 +143,7 @@ import type { Lead } from './types';
     });
 
     // Include known shadow roots if present
-    const shadowHosts = Array.from(document.querySelectorAll<HTMLElement>('[data-shadow-host="lead"], indiamart-lead-feed')); // heuristic selectors
+    const shadowHosts = Array.from(document.querySelectorAll<HTMLElement>(selectorPack.shadowHosts.join(', ')));
     shadowHosts.forEach((host) => {
       if (host.shadowRoot) {
         contexts.push(host.shadowRoot);
@@ -184,28 +156,13 @@ import type { Lead } from './types';
 
   const getLeadCardElements = (): HTMLElement[] => {
     const contexts = getLeadSearchContexts();
-    const seen = new Set<HTMLElement>();
-    const cards: HTMLElement[] = [];
-
-    contexts.forEach((ctx, ctxIndex) => {
-      const contextLabel = describeContext(ctx, ctxIndex);
-      LEAD_CARD_SELECTORS.forEach((selector) => {
-        const matches = Array.from(ctx.querySelectorAll<HTMLElement>(selector));
-        matches.forEach((match) => {
-          if (!seen.has(match)) {
-            seen.add(match);
-            cards.push(match);
-          }
-        });
-        if (matches.length > 0) {
-          console.log(`[IndiaMART Agent] Found ${matches.length} elements via selector "${selector}" in ${contextLabel}`);
-        }
-      });
+    const cards = findLeadCards(contexts, selectorPack, (selector, count, ctxIndex) => {
+      console.log(`[IndiaMART Agent] Found ${count} elements via selector "${selector}" in ${describeContext(contexts[ctxIndex], ctxIndex)}`);
     });
 
     if (cards.length === 0) {
       if (!hasLoggedNoLeadCards) {
-        console.warn('[IndiaMART Agent] No lead cards detected across any context. selectors:', LEAD_CARD_SELECTORS.join(', '));
+        console.warn('[IndiaMART Agent] No lead cards detected across any context. selectors:', selectorPack.leadCards.join(', '));
         hasLoggedNoLeadCards = true;
       }
     } else {
@@ -215,104 +172,10 @@ import type { Lead } from './types';
     return cards;
   };
 
-  const buildLeadId = (card: Element, index: number, title: string, timestamp: string): string => {
-    const attrId = card.getAttribute('data-lead-id');
-    if (attrId) return attrId;
-
-    const hiddenId =
-      getInputValue(card, 'input[name="ofrid"], input[id^="ofrid"], input[name^="ofrid"]') ||
-      getInputValue(card, 'input[name="gridParam"], input[name^="gridParam"], input[id^="gridParam"]');
-    if (hiddenId) return hiddenId;
-
-    return `${index}-${title || 'lead'}-${timestamp || 'time'}`.replace(/\s+/g, '-');
-  };
-
-  const extractLead = (card: Element, index: number): Lead => {
-    const primaryTitle = sanitizeOptional(card.querySelector('h1, h2, h3, .bl-title, .enquiry-title')?.textContent);
-    const ofrTitle = getInputValue(card, 'input[name="ofrtitle"], input[id^="ofrtitle"], input[name^="ofrtitle"]');
-
-    const companyName =
-      sanitizeOptional(card.querySelector('p.bl-compNm, .company-name')?.textContent) ||
-      sanitizeOptional(card.querySelector('.lstNwRgtBD .alignBox b, .lstNwRgtBD .buyer-name')?.textContent) ||
-      'N/A';
-
-    const requirement =
-      sanitizeOptional(card.querySelector('p.bl-enq-comp, .requirement')?.textContent) ||
-      ofrTitle ||
-      primaryTitle ||
-      'No requirement specified.';
-
-    const city =
-      sanitizeOptional(card.querySelector('.lstNwLftLoc .city_click')?.textContent) ||
-      getInputValue(card, 'input[id^="card_city"], input[name^="card_city"]');
-    const state =
-      sanitizeOptional(card.querySelector('.lstNwLftLoc .state_click')?.textContent) ||
-      getInputValue(card, 'input[id^="card_state"], input[name^="card_state"]');
-    const location =
-      sanitizeOptional(card.querySelector('li[title="Location"] span, .location')?.textContent) ||
-      [city, state].filter(Boolean).join(', ') ||
-      'N/A';
-
-    const offerDate = getInputValue(card, 'input[name="offerdate"], input[id^="offerdate"], input[id^="ofrdate"], input[name^="ofrdate"]');
-    const timestamp =
-      offerDate ||
-      sanitizeOptional(card.querySelector('li[title="Date"] span, time, .date, .lstNwLftLoc strong')?.textContent) ||
-      'N/A';
-
-    const quantityText =
-      getTableValue(card as HTMLElement, 'Quantity') ||
-      sanitizeOptional(card.querySelector('.bl-qty, [class*="quantity"], li[title="Quantity"], li:has(span.bl-qty)')?.textContent);
-    const quantityMatch = card.textContent?.match(/Quantity\s*[:\-]?\s*([\d.,]+)/i);
-    const quantityInfo = parseQuantity(quantityText || quantityMatch?.[1]);
-
-    const categoryText =
-      sanitizeOptional(card.querySelector('li[title="I am interested in"], .bl-interest, .bl-category a, .bl-category span')?.textContent) ||
-      getInputValue(card, 'input[name="mcatname"], input[id^="mcatname"], input[name^="mcatname"]') ||
-      undefined;
-
-    let fabricElement = card.querySelector('[class*="fabric"], li[title="Fabric"] span');
-    if (!fabricElement) {
-      const fabricLi = Array.from(card.querySelectorAll('li')).find((li) =>
-        li.textContent?.toLowerCase().includes('fabric')
-      );
-      if (fabricLi) {
-        fabricElement =
-          fabricLi.querySelector('span, strong, b') ||
-          (fabricLi as HTMLElement);
-      }
-    }
-    const fabricText = getTableValue(card as HTMLElement, 'Fabric') || sanitizeOptional(fabricElement?.textContent);
-
-    const orderValueNode = card.querySelector('li[title="Probable Order Value"], .bl-order-value, .probable-order');
-    const orderValueText = getTableValue(card as HTMLElement, 'Probable Order Value') || orderValueNode?.textContent || card.textContent?.match(/Probable Order Value\s*[:\-]?\s*([^\n]+)/i)?.[1];
-    const orderValueInfo = parseRupeeRange(orderValueText || undefined);
-
-    const enquiryTitle = primaryTitle || ofrTitle || requirement;
-    const leadId = buildLeadId(card, index, enquiryTitle || '', timestamp || '');
-
-    return {
-      leadId,
-      companyName,
-      enquiryTitle,
-      requirement,
-      contactInfo: 'Contact info may require interaction',
-      location,
-      timestamp,
-      quantityRaw: quantityInfo.raw,
-      quantity: quantityInfo.quantity,
-      category: categoryText || undefined,
-      fabric: fabricText || undefined,
-      probableOrderValueRaw: orderValueInfo.raw,
-      probableOrderValueMin: orderValueInfo.min,
-      probableOrderValueMax: orderValueInfo.max,
-      cardIndex: index,
-    };
-  };
-
   const scrapeLeads = (): Lead[] => {
     const cards = getLeadCardElements();
     console.log(`[IndiaMART Agent] Aggregated ${cards.length} unique lead card elements across contexts`);
-    const leads = cards.map((card, index) => extractLead(card, index));
+    const leads = cards.map((card, index) => extractLead(card, index, selectorPack));
     console.log('[IndiaMART Agent] Scraped leads data:', leads);
     return leads;
   };
@@ -336,26 +199,100 @@ import type { Lead } from './types';
     return null;
   };
 
-  const performContactFlow = async (cardIndex: number, preContactDelayMs?: number): Promise<{ success: boolean; error?: string }> => {
+  const findLeadCard = (leadId: string): HTMLElement | null => {
     const cards = getLeadCardElements();
-    const card = cards[cardIndex];
-    if (!card) {
-      return { success: false, error: `Lead card at index ${cardIndex} not found.` };
+    return cards.find((card, index) => extractLead(card, index, selectorPack).leadId === leadId) || null;
+  };
+
+  const normalizeForMatch = (value?: string): string => (value || '').replace(/\s+/g, ' ').trim().toLowerCase();
+
+  // Guard against spending a BuyLead credit on a different enquiry than the one that was scraped
+  const describeLeadMismatch = (card: HTMLElement, expected: Lead): string | null => {
+    const current = extractLead(card, expected.cardIndex ?? 0, selectorPack);
+    const mismatches: string[] = [];
+    if (normalizeForMatch(current.companyName) !== normalizeForMatch(expected.companyName)) {
+      mismatches.push(`company "${current.companyName}" != "${expected.companyName}"`);
+    }
+    if (normalizeForMatch(current.enquiryTitle) !== normalizeForMatch(expected.enquiryTitle)) {
+      mismatches.push(`title "${current.enquiryTitle}" != "${expected.enquiryTitle}"`);
     }
+    return mismatches.length ? `Lead mismatch for ${expected.leadId}: ${mismatches.join('; ')}` : null;
+  };
 
-    // Optional pre-contact randomized delay (5–15 minutes) before clicking Contact Buyer Now
-    if (typeof preContactDelayMs === 'number' && preContactDelayMs > 0) {
-      console.log(`[IndiaMART Agent] Waiting ${(preContactDelayMs / 60000).toFixed(2)} minutes before contacting...`);
-      await new Promise((resolve) => setTimeout(resolve, preContactDelayMs));
-      if (isStopped || !isAutoContactEnabled) {
-        return { success: false, error: 'Agent stopped or auto-contact disabled before starting contact.' };
-      }
+  // The reply box is framework-controlled: set the value the way typing would, then announce it
+  const fillReplyBox = (box: HTMLElement, text: string): string => {
+    if (box instanceof HTMLTextAreaElement) {
+      const setValue = Object.getOwnPropertyDescriptor(HTMLTextAreaElement.prototype, 'value')?.set;
+      box.focus();
+      if (setValue) setValue.call(box, text);
+      else box.value = text;
+    } else {
+      box.focus();
+      box.textContent = text;
+    }
+    box.dispatchEvent(new Event('input', { bubbles: true }));
+    box.dispatchEvent(new Event('change', { bubbles: true }));
+    return box instanceof HTMLTextAreaElement ? box.value : box.textContent || '';
+  };
+
+  // After "Send Reply": wait for a confirmation or failure notice, the card's "Contacted" label or
+  // a lower credit balance. Nothing conclusive within the timeout leaves the contact unconfirmed.
+  const verifyContact = async (
+    card: HTMLElement,
+    leadId: string,
+    staleNotices: Set<Element>,
+    creditsBefore: number | undefined,
+    cardMarkedBefore: boolean
+  ): Promise<ContactVerification> => {
+    const start = Date.now();
+    while (Date.now() - start < CONTACT_VERIFY_TIMEOUT_MS) {
+      await new Promise((resolve) => setTimeout(resolve, CONTACT_VERIFY_INTERVAL_MS));
+      // The card may re-render once the reply is accepted
+      const currentCard = cardMarkedBefore ? null : card.isConnected ? card : findLeadCard(leadId);
+      const verification = checkContactOutcome(document, currentCard, staleNotices, creditsBefore);
+      if (verification) return verification;
+    }
+    return {
+      outcome: 'unconfirmed',
+      detail: `no confirmation, "Contacted" label or credit change within ${CONTACT_VERIFY_TIMEOUT_MS / 1000}s`,
+    };
+  };
+
+  // The pre-contact wait is owned by the background contact queue; this runs when an entry is due.
+  // With a rendered template, the reply box is filled first and the text read back is reported as sent.
+  // `success` means the reply went out without a refusal; `outcome` says whether IndiaMART confirmed it.
+  const performContactFlow = async (
+    expected: Lead,
+    replyMessage?: string
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    reason?: ContactFailureReason;
+    sentMessage?: string;
+    outcome?: ContactVerification['outcome'];
+    outcomeDetail?: string;
+  }> => {
+    const card = findLeadCard(expected.leadId);
+    if (!card) {
+      return { success: false, reason: 'card_not_found', error: `Lead card ${expected.leadId} not found on the page.` };
     }
 
     const contactButton = await waitForElement(() => findElementByText(card, 'button, a', CONTACT_BUTTON_TEXT), 5000);
     if (!contactButton) {
-      return { success: false, error: 'Contact Buyer Now button not found.' };
+      return { success: false, reason: 'contact_button_missing', error: 'Contact Buyer Now button not found.' };
+    }
+
+    // Re-check right before clicking: the card may have been re-rendered while we waited
+    if (!card.isConnected) {
+      return { success: false, reason: 'card_not_found', error: `Lead card ${expected.leadId} was removed from the page before contacting.` };
+    }
+    const mismatch = describeLeadMismatch(card, expected);
+    if (mismatch) {
+      return { success: false, reason: 'lead_mismatch', error: mismatch };
     }
+    const creditsBefore = readCreditBalance(document);
+    const cardMarkedBefore = isCardMarkedContacted(card);
+    contactClickedAt = Date.now();
     contactButton.click();
 
     const replyButton = await waitForElement(() => {
@@ -366,67 +303,31 @@ import type { Lead } from './types';
       return findElementByText(document, 'button, a, div', SEND_REPLY_TEXT);
     }, 8000);
     if (!replyButton) {
-      return { success: false, error: 'Send Reply button not found after opening contact form.' };
+      return { success: false, reason: 'reply_button_missing', error: 'Send Reply button not found after opening contact form.' };
+    }
+    const replyForm = replyButton.closest(REPLY_FORM_SELECTOR) || document;
+    const replyBox = Array.from(replyForm.querySelectorAll<HTMLElement>(REPLY_BOX_SELECTOR)).find((box) => !box.hidden) || null;
+    let sentMessage = replyBox instanceof HTMLTextAreaElement ? replyBox.value : sanitizeOptional(replyBox?.textContent);
+    if (replyMessage) {
+      // Never fall back to the generic pre-filled text when a template was chosen
+      if (!replyBox) {
+        return { success: false, reason: 'reply_box_unavailable', error: 'Reply box not found; the templated reply was not sent.' };
+      }
+      sentMessage = fillReplyBox(replyBox, replyMessage);
+      if (normalizeForMatch(sentMessage) !== normalizeForMatch(replyMessage)) {
+        return { success: false, reason: 'reply_box_unavailable', error: 'Reply box did not accept the templated reply; nothing was sent.' };
+      }
+      await new Promise((resolve) => setTimeout(resolve, 300 + Math.random() * 700));
     }
-    // New behavior: click Send Reply immediately (no additional randomized wait here)
+    const staleNotices = snapshotContactNotices(document);
     replyButton.click();
 
-    return { success: true };
-  };
-
-  // Removed duplicate startScrapeLoop - defined later in the file
-
-  const applyIntelligentFilter = (lead: Lead): { passed: boolean; reason: string; nextContactDelayMinutes: number } => {
-    // Filter 1: Enquiry Title Keywords (inclusive match)
-    const enquiryKeywords = [
-      'uniform', 'uniform fabric', 'uniform blazers', 'uniform jackets', 'nurse uniform',
-      'chef coats', 'corporate uniform', 'staff uniform', 'ncc uniform', 'waiter uniform'
-    ];
-    const titleLower = (lead.enquiryTitle || lead.requirement || '').toLowerCase();
-    const hasKeyword = enquiryKeywords.some(keyword => titleLower.includes(keyword));
-    if (!hasKeyword) return { passed: false, reason: 'No uniform keywords found', nextContactDelayMinutes: 0 };
-    
-    // Filter 2: Location exclusion
-    const excludedLocations = [
-      'delhi', 'mumbai', 'gurgaon', 'ahmedabad', 'surat', 'thane'
-    ];
-    const locationLower = (lead.location || '').toLowerCase();
-    const isExcluded = excludedLocations.some(loc => locationLower.includes(loc));
-    if (isExcluded) return { passed: false, reason: 'Location is excluded', nextContactDelayMinutes: 0 };
-    
-    // Check for foreign locations
-    const foreignIndicators = ['usa', 'uk', 'uae', 'canada', 'australia', 'singapore', 'malaysia'];
-    const isForeign = foreignIndicators.some(country => locationLower.includes(country));
-    if (isForeign) return { passed: false, reason: 'Foreign location', nextContactDelayMinutes: 0 };
-    
-    // Filter 3: Quantity > 100
-    if (!lead.quantity || lead.quantity <= 100) {
-      return { passed: false, reason: 'Quantity <= 100', nextContactDelayMinutes: 0 };
-    }
-    
-    // Filter 4: Category match (exact match)
-    const allowedCategories = [
-      'kids school uniform', 'school uniforms', 'school blazers', 'school uniform fabric',
-      'worker uniform', 'uniform fabric', 'security guard uniform', 'petrol pump uniform',
-      'safety suits', 'boys school uniform', 'surgical gown', 'hospital uniforms', 'corporate uniform'
-    ];
-    const categoryLower = (lead.category || '').toLowerCase();
-    const hasCategory = allowedCategories.some(cat => categoryLower === cat);
-    if (!hasCategory && lead.category) {
-      return { passed: false, reason: 'Category not in allowed list', nextContactDelayMinutes: 0 };
+    const verification = await verifyContact(card, expected.leadId, staleNotices, creditsBefore, cardMarkedBefore);
+    console.log(`[IndiaMART Agent] Contact ${expected.leadId}: ${verification.outcome} (${verification.detail})`);
+    if (verification.outcome === 'failed') {
+      return { success: false, reason: 'refused', error: verification.detail, outcome: 'failed', outcomeDetail: verification.detail };
     }
-    
-    // Filter 5: Probable Order Value > ₹50,000
-    const orderValue = lead.probableOrderValueMin || lead.probableOrderValueMax || 0;
-    if (orderValue <= 50000) {
-      return { passed: false, reason: 'Order value <= ₹50,000', nextContactDelayMinutes: 0 };
-    }
-    
-    // Generate random delay between 1-10 minutes for qualified leads
-    const delayOptions = [1, 5, 10];
-    const randomDelay = delayOptions[Math.floor(Math.random() * delayOptions.length)];
-    
-    return { passed: true, reason: 'Meets all criteria', nextContactDelayMinutes: randomDelay };
+    return { success: true, sentMessage: sentMessage || undefined, outcome: verification.outcome, outcomeDetail: verification.detail };
   };
 
   const getRandomDelay = (): number => {
@@ -464,6 +365,10 @@ import type { Lead } from './types';
     console.log(`[IndiaMART Agent] Scheduling page refresh in ${(refreshDelay / 1000).toFixed(1)} seconds`);
     
     pageRefreshTimer = setTimeout(() => {
+      if (contactInProgress) {
+        setupPageRefresh();
+        return;
+      }
       if (!isStopped && isAutoContactEnabled) {
         lastRefreshTime = Date.now();
         console.log('IndiaMART Agent: Refreshing page...');
@@ -498,7 +403,7 @@ import type { Lead } from './types';
     }, REFRESH_INTERVAL);
   };
 
-  // Setup automatic refresh every 30 seconds when auto-contact is enabled
+  // Setup automatic refresh when auto-contact is enabled: every 30 seconds, or after a quiet period in incremental mode
   const setupPeriodicRefresh = () => {
     if (isStopped || !isAutoContactEnabled) {
       return;
@@ -510,51 +415,30 @@ import type { Lead } from './types';
       pageRefreshTimer = null;
     }
     
-    // Schedule refresh in 30 seconds
-    console.log('[IndiaMART Agent] Setting up periodic refresh - will refresh in 30 seconds');
+    // Incremental mode watches the feed in place and only reloads once it has gone quiet
+    const incremental = agentSettings.detectionMode === 'incremental';
+    const quietMs = agentSettings.quietReloadMinutes * 60 * 1000;
+    const refreshDelay = incremental
+      ? Math.max(REFRESH_INTERVAL, lastNewLeadTime + quietMs * (1 + Math.random() * QUIET_RELOAD_JITTER) - Date.now())
+      : REFRESH_INTERVAL;
+    console.log(`[IndiaMART Agent] Setting up ${incremental ? 'fallback' : 'periodic'} refresh - will refresh in ${Math.round(refreshDelay / 1000)} seconds`);
     pageRefreshTimer = setTimeout(() => {
+      if (contactInProgress) {
+        console.log('[IndiaMART Agent] Contact in progress - postponing periodic refresh');
+        setupPeriodicRefresh();
+        return;
+      }
+      if (incremental && Date.now() - lastNewLeadTime < quietMs) {
+        // A new lead arrived since this was scheduled
+        setupPeriodicRefresh();
+        return;
+      }
       if (!isStopped && isAutoContactEnabled) {
         lastRefreshTime = Date.now();
-        console.log('IndiaMART Agent: Periodic refresh - refreshing page now...');
+        console.log(`IndiaMART Agent: ${incremental ? 'No new leads for a while' : 'Periodic refresh'} - refreshing page now...`);
         window.location.reload();
       }
-    }, REFRESH_INTERVAL);
-  };
-
-  const processFilteredLead = async (lead: Lead, cardIndex: number, preContactDelayMs?: number): Promise<boolean> => {
-    if (!isAutoContactEnabled || isStopped) return false;
-    
-    try {
-      const result = await performContactFlow(cardIndex, preContactDelayMs);
-      if (result.success) {
-        processedLeads.add(lead.leadId);
-        lastContactTime = Date.now();
-        contactedLeadsCount++;
-        
-        chrome.runtime.sendMessage({
-          type: 'AUTO_CONTACT_SUCCESS',
-          leadId: lead.leadId,
-          companyName: lead.companyName,
-          timestamp: new Date().toISOString(),
-          contactedCount: contactedLeadsCount,
-          totalFiltered: filteredLeadsCount
-        });
-        
-        console.log(`Contacted: ${lead.companyName} (${contactedLeadsCount}/${filteredLeadsCount})`);
-        
-        // Check if all filtered leads have been contacted
-        if (contactedLeadsCount >= filteredLeadsCount && isAutoContactEnabled && !isStopped) {
-          console.log('All filtered leads contacted. Periodic refresh will handle page refresh.');
-          // Don't trigger immediate refresh - let periodic refresh handle it in 30 seconds
-        }
-        
-        return true;
-      }
-    } catch (error) {
-      console.error('Error contacting lead:', error);
-    }
-    
-    return false;
+    }, refreshDelay);
   };
 
   // Storage helper functions and keys
@@ -592,7 +476,8 @@ import type { Lead } from './types';
           id: l.leadId,
           c: l.companyName,
           e: l.enquiryTitle,
-          loc: l.location
+          loc: l.location,
+          p: l.profileId
         }))
       };
       const signature = JSON.stringify(signaturePayload);
@@ -617,11 +502,20 @@ import type { Lead } from './types';
       logEntries.push(`[${timestamp}] [IndiaMART Agent] Total leads: ${totalLeads}`);
       logEntries.push(`[${timestamp}] [IndiaMART Agent] Filtered (qualified) leads: ${filteredLeadsCount}`);
       logEntries.push(`[${timestamp}] [IndiaMART Agent] Rejected leads: ${rejectedLeads}`);
+
+      const perProfile = new Map<string, number>();
+      filteredLeads.forEach((lead) => {
+        const name = lead.profileName || 'Unassigned';
+        perProfile.set(name, (perProfile.get(name) || 0) + 1);
+      });
+      perProfile.forEach((count, name) => {
+        logEntries.push(`[${timestamp}] [IndiaMART Agent] Profile "${name}": ${count} qualified`);
+      });
       
       if (filteredLeads.length > 0) {
         logEntries.push(`[${timestamp}] [IndiaMART Agent] Filtered leads list:`);
         filteredLeads.forEach((lead, index) => {
-          logEntries.push(`[${timestamp}] [IndiaMART Agent]   ${index + 1}. Company: ${lead.companyName}, Enquiry: ${lead.enquiryTitle}, Location: ${lead.location}`);
+          logEntries.push(`[${timestamp}] [IndiaMART Agent]   ${index + 1}. Company: ${lead.companyName}, Enquiry: ${lead.enquiryTitle}, Location: ${lead.location}, Profile: ${lead.profileName || 'N/A'}, Score: ${lead.score ?? 'N/A'}`);
         });
       } else {
         logEntries.push(`[${timestamp}] [IndiaMART Agent] Filtered leads list: Array(0)`);
@@ -654,38 +548,108 @@ import type { Lead } from './types';
     }
   };
 
+  // Field coverage across every card on the page; the background pauses auto-contact when it drops.
+  // No cards only counts once the page has loaded and had its chance to render them, and only as
+  // degraded when the page lists leads or this feed had cards on its previous pass.
+  const reportExtractionHealth = async (leads: Lead[]): Promise<ExtractionHealth | undefined> => {
+    if (leads.length === 0 && (!initialScrapeSettled || document.readyState !== 'complete')) return undefined;
+    const feedKey = matchFeed(location.href, agentSettings.feeds)?.id || `${location.pathname}${location.search}`;
+    const stored = await chrome.storage.local.get(FEED_CARD_COUNTS_KEY).catch(() => ({} as Record<string, unknown>));
+    const cardCounts: Record<string, number> = stored[FEED_CARD_COUNTS_KEY] || {};
+    const cardsExpected = leads.length > 0 || (cardCounts[feedKey] ?? 0) > 0 || pageListsLeads(document, selectorPack, MIN_HEALTH_SAMPLE);
+    const health = buildExtractionHealth(leads, selectorPack.revision, Date.now(), cardsExpected);
+    // A pass that lost every card keeps the last count, so the next empty pass is still judged against it
+    if ((leads.length > 0 || health.healthy) && cardCounts[feedKey] !== leads.length) {
+      chrome.storage.local.set({ [FEED_CARD_COUNTS_KEY]: { ...cardCounts, [feedKey]: leads.length } }).catch(() => undefined);
+    }
+    chrome.runtime.sendMessage({ type: 'EXTRACTION_HEALTH', health }, () => void chrome.runtime.lastError);
+    if (!health.healthy) {
+      console.warn(`[IndiaMART Agent] Extraction degraded (selectors ${selectorPack.revision}): ${formatDegradedFields(health)}`);
+    }
+    return health;
+  };
+
   const processLeadsWithFiltering = async () => {
     if (isStopped) return;
     
     // Update last processing time
     lastProcessingTime = Date.now();
     
-    const leads = scrapeLeads();
+    const cards = getLeadCardElements();
+    const knownLeadIds = new Set(Array.from(cardCache.values(), ({ lead }) => lead.leadId));
+    const feed = matchFeed(location.href, agentSettings.feeds);
+    const nextCache = new Map<string, { lead: Lead; evaluation: ProfileEvaluation }>();
+    const allEntries = cards.map((card, index) => {
+      const hash = cardContentHash(card);
+      const cached = cardCache.get(hash) || nextCache.get(hash);
+      const entry = cached || (() => {
+        const extracted = extractLead(card, index, selectorPack);
+        const details = enrichedDetails.get(extracted.leadId);
+        const lead = details ? mergeLeadDetails(extracted, details) : extracted;
+        lead.sourceFeedId = feed?.id ?? UNLISTED_FEED_ID;
+        lead.sourceFeedLabel = feed?.label ?? UNLISTED_FEED_LABEL;
+        return { lead, evaluation: annotateLead(lead, filterProfiles) };
+      })();
+      entry.lead.cardIndex = index;
+      nextCache.set(hash, entry);
+      return { ...entry, isNew: !cached };
+    });
+    cardCache = nextCache;
+    // Harvested pages can render the same lead twice; the first card wins
+    const leadIdsThisPass = new Set<string>();
+    const entries = allEntries.filter(({ lead }) => {
+      if (leadIdsThisPass.has(lead.leadId)) return false;
+      leadIdsThisPass.add(lead.leadId);
+      return true;
+    });
+    const leads = entries.map(({ lead }) => lead);
+    const newCount = entries.filter(({ isNew }) => isNew).length;
+    if (entries.some(({ isNew, lead }) => isNew && !knownLeadIds.has(lead.leadId))) {
+      lastNewLeadTime = Date.now();
+    }
     const filteredLeads: Lead[] = [];
-    
+
+    const health = await reportExtractionHealth(leads);
+
+    // The header's BuyLead credits; the background stops contacting when they reach the reserve
+    const credits = readCreditBalance(document);
+    if (credits !== undefined) {
+      chrome.runtime.sendMessage({ type: 'CREDIT_BALANCE', credits }, () => void chrome.runtime.lastError);
+    }
+
+    // Qualified leads are held back from the queue until enriched, so they take the per-pass slots
+    // first (best score first) and near-misses get what is left
+    const enrichmentCandidates = agentSettings.enrichDetails
+      ? leads
+          .filter((lead) => !enrichmentAttempted.has(lead.leadId) && !queuedLeads.has(lead.leadId) && isEnrichmentCandidate(lead))
+          .sort((a, b) => Number(Boolean(b.passedFilter)) - Number(Boolean(a.passedFilter)) || (b.score ?? 0) - (a.score ?? 0))
+      : [];
+
     // Reset counters for this batch
     filteredLeadsCount = 0;
-    contactedLeadsCount = 0;
     pendingContacts = [];
     
     console.log('[IndiaMART Agent] Processing leads with filtering...');
-    console.log('[IndiaMART Agent] Total leads to process:', leads.length);
+    console.log(`[IndiaMART Agent] Total leads to process: ${leads.length} (${newCount} new or changed)`);
     
     // Apply filtering
-    for (const lead of leads) {
-      if (processedLeads.has(lead.leadId)) {
-        console.log(`[IndiaMART Agent] Skipping already processed lead: ${lead.companyName}`);
-        continue; // Skip already processed
+    for (const { lead, evaluation: filterResult, isNew } of entries) {
+      // Already-queued leads stay in the filtered count; only leads not yet queued are handed over
+      const queued = queuedLeads.has(lead.leadId);
+      if (!isNew) {
+        // Unchanged card: filtered on an earlier pass
+        if (filterResult.passed) {
+          filteredLeads.push(lead);
+          if (filterResult.profile?.autoContact && !queued) pendingContacts.push(lead);
+          filteredLeadsCount++;
+        }
+        continue;
       }
       
-      const filterResult = applyIntelligentFilter(lead);
-      lead.passedFilter = filterResult.passed;
-      lead.filterReason = filterResult.reason;
-      lead.nextContactDelayMinutes = filterResult.nextContactDelayMinutes;
-      
       console.log(`[IndiaMART Agent] Lead: ${lead.companyName}`);
-      console.log(`  - Filter passed: ${filterResult.passed}`);
+      console.log(`  - Filter passed: ${filterResult.passed}${filterResult.profile ? ` (profile: ${filterResult.profile.name})` : ''}`);
       console.log(`  - Reason: ${filterResult.reason}`);
+      console.log(`  - Score: ${filterResult.score ?? 'n/a'}`);
       console.log(`  - Details:`, {
         enquiryTitle: lead.enquiryTitle,
         location: lead.location,
@@ -696,7 +660,10 @@ import type { Lead } from './types';
       
       if (filterResult.passed) {
         filteredLeads.push(lead);
-        pendingContacts.push(lead);
+        // Profiles with auto-contact off only tag and log their matches
+        if (filterResult.profile?.autoContact && !queued) {
+          pendingContacts.push(lead);
+        }
         filteredLeadsCount++;
       }
     }
@@ -736,6 +703,8 @@ import type { Lead } from './types';
       }
     } catch {}
     
+    observeLeadFeed();
+
     // Set up periodic refresh and processing every 30 seconds when auto-contact is enabled
     if (isAutoContactEnabled && !isStopped) {
       setupPeriodicProcessing(); // Process and save logs every 30 seconds
@@ -749,19 +718,228 @@ import type { Lead } from './types';
       } else {
         console.log('No filtered leads found. Auto-contact disabled, no refresh scheduled.');
       }
+    } else if (health && !health.healthy) {
+      console.warn('[IndiaMART Agent] Not queueing contacts from a degraded scrape');
     } else if (isAutoContactEnabled && !isStopped) {
-      // Schedule contacts: wait 5–15 minutes BEFORE contacting, then send reply immediately
-      for (let i = 0; i < pendingContacts.length; i++) {
-        const lead = pendingContacts[i];
-        const preDelay = PRE_CONTACT_DELAY_MIN + Math.random() * (PRE_CONTACT_DELAY_MAX - PRE_CONTACT_DELAY_MIN);
-        const jitter = i * 1000; // slight staggering between leads
-        setTimeout(() => {
-          if (!isStopped && isAutoContactEnabled) {
-            processFilteredLead(lead, lead.cardIndex || 0, preDelay);
-          }
-        }, jitter);
+      // Hand qualified leads to the background's persistent contact queue (survives page reloads)
+      // Best-scoring leads first; the background paces them by score. Leads still waiting for their
+      // detail view are held back until the enrichment pass has re-filtered them.
+      const ranked = pendingContacts
+        .filter((lead) => !enrichmentCandidates.some((candidate) => candidate.leadId === lead.leadId))
+        .sort((a, b) => (b.score ?? 0) - (a.score ?? 0));
+      chrome.runtime.sendMessage({ type: 'ENQUEUE_CONTACTS', leads: ranked }, (response) => {
+        if (chrome.runtime.lastError) {
+          console.warn('[IndiaMART Agent] Could not queue contacts:', chrome.runtime.lastError.message);
+          return;
+        }
+        const queuedLeadIds: string[] = response?.queuedLeadIds || [];
+        const knownLeadIds: string[] = response?.knownLeadIds || [];
+        [...queuedLeadIds, ...knownLeadIds].forEach((leadId) => queuedLeads.add(leadId));
+        console.log(`[IndiaMART Agent] Queued ${queuedLeadIds.length} new lead(s) for contact`);
+      });
+    }
+
+    if (enrichmentCandidates.length > 0) {
+      enrichLeadDetails(enrichmentCandidates);
+    }
+  };
+
+  // Incremental detection: re-process only when a mutation leaves a card we haven't hashed yet
+  const checkFeedForNewCards = () => {
+    feedMutationTimer = null;
+    if (isStopped || contactInProgress || harvesting || enriching) return;
+    observeLeadFeed();
+    const cards = findLeadCards(getLeadSearchContexts(), selectorPack);
+    if (cards.some((card) => !cardCache.has(cardContentHash(card)))) {
+      console.log('[IndiaMART Agent] Lead feed changed - processing new cards');
+      processLeadsWithFiltering();
+    }
+  };
+
+  const observeLeadFeed = () => {
+    if (isStopped || agentSettings.detectionMode !== 'incremental') return;
+    if (!feedObserver) {
+      feedObserver = new MutationObserver(() => {
+        if (feedMutationTimer) clearTimeout(feedMutationTimer);
+        feedMutationTimer = setTimeout(checkFeedForNewCards, FEED_MUTATION_DEBOUNCE_MS);
+      });
+    }
+    // Iframes and shadow roots can appear after the first scrape
+    getLeadSearchContexts().forEach((ctx) => {
+      const root = 'body' in ctx ? ctx.body : ctx;
+      if (!root || observedFeedRoots.has(root)) return;
+      observedFeedRoots.add(root);
+      feedObserver!.observe(root, { childList: true, subtree: true, characterData: true });
+    });
+  };
+
+  const stopObservingLeadFeed = () => {
+    feedObserver?.disconnect();
+    feedObserver = null;
+    observedFeedRoots = new WeakSet<Node>();
+    if (feedMutationTimer) {
+      clearTimeout(feedMutationTimer);
+      feedMutationTimer = null;
+    }
+  };
+
+  const pause = (minMs: number, maxMs = minMs) => new Promise((resolve) => setTimeout(resolve, minMs + Math.random() * (maxMs - minMs)));
+
+  // Restores the scroll of the page, the feed's frame and every scrollable ancestor of the feed
+  const captureScrollPositions = (anchor?: Element): (() => void) => {
+    const restorers: (() => void)[] = [];
+    [window, anchor?.ownerDocument.defaultView].forEach((win, index, all) => {
+      if (!win || all.indexOf(win) !== index) return;
+      const { scrollX, scrollY } = win;
+      restorers.push(() => win.scrollTo({ left: scrollX, top: scrollY }));
+    });
+    for (let el = anchor?.parentElement; el; el = el.parentElement) {
+      if (el.scrollHeight > el.clientHeight) {
+        const { scrollLeft, scrollTop } = el;
+        restorers.push(() => el.scrollTo({ left: scrollLeft, top: scrollTop }));
       }
     }
+    return () => restorers.forEach((restore) => restore());
+  };
+
+  /**
+   * Loads leads below the fold: clicks "Show more" (or scrolls the last card into view) a step at a
+   * time with human-length pauses, until the configured depth, leads older than the age limit, or
+   * the end of the feed. New leads are counted by leadId; the scroll position is restored afterwards.
+   */
+  const harvestLeadFeed = async () => {
+    const { harvestDepth, harvestMaxAgeHours } = agentSettings;
+    if (harvesting || enriching || harvestDepth <= 0 || isStopped) return;
+    harvesting = true;
+
+    const currentCards = () => findLeadCards(getLeadSearchContexts(), selectorPack);
+    const initialCards = currentCards();
+    const restoreScroll = captureScrollPositions(initialCards[0]);
+    const seenCards = new Set<HTMLElement>(initialCards);
+    const seenLeadIds = new Set(initialCards.map((card, index) => extractLead(card, index, selectorPack).leadId));
+    const initialLeadCount = seenLeadIds.size;
+    let steps = 0;
+    let stopReason = `depth limit (${harvestDepth})`;
+
+    try {
+      for (; steps < harvestDepth; steps++) {
+        if (isStopped || contactInProgress) {
+          stopReason = isStopped ? 'agent stopped' : 'contact in progress';
+          break;
+        }
+        const control = findShowMoreControl(getLeadSearchContexts(), selectorPack);
+        if (control) {
+          control.scrollIntoView({ block: 'center', behavior: 'smooth' });
+          await pause(400, 1200);
+          control.click();
+        } else {
+          const cards = currentCards();
+          cards[cards.length - 1]?.scrollIntoView({ block: 'end', behavior: 'smooth' });
+        }
+
+        const loaded = await waitForElement(() => currentCards().find((card) => !seenCards.has(card)) || null, HARVEST_LOAD_TIMEOUT_MS, 300);
+        if (!loaded) {
+          stopReason = 'end of feed';
+          break;
+        }
+
+        const freshLeads: Lead[] = [];
+        currentCards().forEach((card, index) => {
+          if (seenCards.has(card)) return;
+          seenCards.add(card);
+          const lead = extractLead(card, index, selectorPack);
+          if (seenLeadIds.has(lead.leadId)) return;
+          seenLeadIds.add(lead.leadId);
+          freshLeads.push(lead);
+        });
+        const oldestAge = Math.max(...freshLeads.map((lead) => lead.ageHours ?? 0), 0);
+        console.log(`[IndiaMART Agent] Harvest step ${steps + 1}: ${freshLeads.length} new lead(s), oldest ${oldestAge.toFixed(1)}h`);
+        if (harvestMaxAgeHours > 0 && oldestAge > harvestMaxAgeHours) {
+          steps += 1;
+          stopReason = `leads older than ${harvestMaxAgeHours}h`;
+          break;
+        }
+        await pause(HARVEST_STEP_DELAY_MIN, HARVEST_STEP_DELAY_MAX);
+      }
+    } finally {
+      restoreScroll();
+      harvesting = false;
+    }
+
+    console.log(`[IndiaMART Agent] Harvested ${seenLeadIds.size - initialLeadCount} lead(s) below the fold in ${steps} step(s); stopped at: ${stopReason}`);
+    processLeadsWithFiltering();
+  };
+
+  // Opens one card's detail view, reads it and closes it again; never touches the contact controls
+  const readLeadDetails = async (card: HTMLElement): Promise<{ details?: LeadDetails; error?: string }> => {
+    const toggle = findDetailToggle(card, selectorPack);
+    if (!toggle) return { error: 'no "View details" control on the card' };
+
+    const openBefore = new Set(listDetailPanels(card, selectorPack));
+    const hashBefore = cardContentHash(card);
+    toggle.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    await pause(400, 1200);
+    toggle.click();
+
+    // A new panel (inline or popup), or failing that the card itself when it expands in place
+    const panel = await waitForElement(
+      () => listDetailPanels(card, selectorPack).find((candidate) => !openBefore.has(candidate)) || (cardContentHash(card) !== hashBefore ? card : null),
+      ENRICH_OPEN_TIMEOUT_MS,
+      200
+    );
+    if (!panel) return { error: 'detail view did not open' };
+
+    await pause(ENRICH_READ_DELAY_MIN, ENRICH_READ_DELAY_MAX);
+    const details = extractLeadDetails(panel, selectorPack);
+
+    const close = panel === card ? null : findDetailClose(panel, selectorPack);
+    if (close) {
+      close.click();
+    } else if (!card.contains(panel)) {
+      panel.ownerDocument.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+    }
+    return { details };
+  };
+
+  /**
+   * Enrichment pass: opens the detail view of each candidate in turn (up to the per-pass limit),
+   * with human-length pauses, then re-filters the page with the details merged in. Each lead is
+   * tried once per page load, so a lead whose details won't open is filtered on its card alone.
+   */
+  const enrichLeadDetails = async (candidates: Lead[]) => {
+    if (enriching || harvesting || isStopped || !agentSettings.enrichDetails) return;
+    const batch = candidates.filter((lead) => !enrichmentAttempted.has(lead.leadId)).slice(0, agentSettings.enrichMaxPerPass);
+    if (batch.length === 0) return;
+    enriching = true;
+
+    const restoreScroll = captureScrollPositions(findLeadCard(batch[0].leadId) ?? undefined);
+    const enrichedLeadIds = new Set<string>();
+    try {
+      for (const lead of batch) {
+        if (isStopped || contactInProgress) break;
+        enrichmentAttempted.add(lead.leadId);
+        const card = findLeadCard(lead.leadId);
+        if (!card) continue;
+        const { details, error } = await readLeadDetails(card);
+        if (details) {
+          enrichedDetails.set(lead.leadId, details);
+          enrichedLeadIds.add(lead.leadId);
+        } else {
+          console.log(`[IndiaMART Agent] Could not read details of ${lead.leadId}: ${error}`);
+        }
+        await pause(HARVEST_STEP_DELAY_MIN, HARVEST_STEP_DELAY_MAX);
+      }
+    } finally {
+      restoreScroll();
+      enriching = false;
+    }
+
+    console.log(`[IndiaMART Agent] Enriched ${enrichedLeadIds.size} of ${batch.length} lead(s) from their detail views`);
+    // Cached evaluations of these leads predate their details
+    cardCache.forEach(({ lead }, hash) => {
+      if (enrichedLeadIds.has(lead.leadId)) cardCache.delete(hash);
+    });
+    processLeadsWithFiltering();
   };
 
   // Handle tab visibility changes - Enhanced visibility detection
@@ -835,11 +1013,35 @@ import type { Lead } from './types';
       return true;
     }
 
+    if (message.type === 'CAPTURE_SNAPSHOT') {
+      try {
+        const contexts = getLeadSearchContexts().map((ctx, index) => ({ label: describeContext(ctx, index), root: ctx }));
+        const { fileName, html, result } = buildPageSnapshot(document, contexts, selectorPack, filterProfiles, `${location.origin}${location.pathname}`);
+        console.log(`[IndiaMART Agent] Captured snapshot ${fileName} with ${result.leads.length} cards`);
+        sendResponse({ success: true, fileName, html, cards: result.leads.length, health: result.health });
+      } catch (error) {
+        sendResponse({ success: false, error: error instanceof Error ? error.message : 'Failed to capture snapshot.' });
+      }
+      return true;
+    }
+
     if (message.type === 'CONTACT_LEAD') {
-      const { cardIndex } = message;
-      performContactFlow(cardIndex)
-        .then((result) => sendResponse(result))
-        .catch((err) => sendResponse({ success: false, error: err?.message || 'Unknown error during contact flow.' }));
+      const lead: Lead | undefined = message.lead;
+      if (!lead?.leadId) {
+        sendResponse({ success: false, error: 'CONTACT_LEAD requires the scraped lead (with leadId).' });
+        return true;
+      }
+      contactInProgress = true;
+      contactClickedAt = undefined;
+      // Every response says whether Contact Buyer Now was clicked, as the click alone spends a credit
+      performContactFlow(lead, typeof message.replyMessage === 'string' ? message.replyMessage : undefined)
+        .then((result) => sendResponse({ ...result, clickedAt: contactClickedAt }))
+        .catch((err) =>
+          sendResponse({ success: false, reason: 'unknown', error: err?.message || 'Unknown error during contact flow.', clickedAt: contactClickedAt })
+        )
+        .finally(() => {
+          contactInProgress = false;
+        });
       return true;
     }
 
@@ -884,6 +1086,7 @@ import type { Lead } from './types';
         clearInterval(periodicProcessInterval);
         periodicProcessInterval = null;
       }
+      stopObservingLeadFeed();
       console.log('Agent stopped by user');
       sendResponse({ success: true });
       return true;
@@ -910,6 +1113,68 @@ import type { Lead } from './types';
     }
   });
 
+  // Filter rules are user-editable from the popup; pick up edits without a reload
+  const watchFilterConfig = () => {
+    loadFilterProfiles().then((profileSet) => {
+      filterProfiles = profileSet;
+    });
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local' || !changes[FILTER_PROFILES_KEY]) return;
+      const next = changes[FILTER_PROFILES_KEY].newValue;
+      const { profileSet, errors } = next === undefined ? { profileSet: DEFAULT_FILTER_PROFILES, errors: [] } : validateFilterProfiles(next);
+      filterProfiles = profileSet || DEFAULT_FILTER_PROFILES;
+      if (errors.length) {
+        console.warn('[IndiaMART Agent] Ignoring invalid filter config, using defaults:', errors);
+      }
+      console.log('[IndiaMART Agent] Filter configuration updated - re-evaluating leads');
+      // Re-evaluate everything on the page against the new rules
+      cardCache.clear();
+      processLeadsWithFiltering();
+    });
+  };
+
+  const watchSelectorPack = () => {
+    loadSelectorPack().then(({ pack }) => {
+      selectorPack = pack;
+    });
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local' || !(SELECTOR_PACK_OVERRIDE_KEY in changes)) return;
+      const { pack, errors } = validateSelectorPackOverride(changes[SELECTOR_PACK_OVERRIDE_KEY].newValue);
+      selectorPack = pack || DEFAULT_SELECTOR_PACK;
+      if (errors.length) {
+        console.warn('[IndiaMART Agent] Ignoring invalid selector override, using the bundled pack:', errors);
+      }
+      console.log(`[IndiaMART Agent] Selector pack ${selectorPack.revision} active - re-scraping leads`);
+      cardCache.clear();
+      processLeadsWithFiltering();
+    });
+  };
+
+  const watchAgentSettings = () => {
+    loadAgentSettings().then((settings) => {
+      agentSettings = settings;
+    });
+
+    chrome.storage.onChanged.addListener((changes, areaName) => {
+      if (areaName !== 'local' || !(AGENT_SETTINGS_KEY in changes)) return;
+      const { settings, errors } = validateAgentSettings(changes[AGENT_SETTINGS_KEY].newValue);
+      agentSettings = settings || DEFAULT_AGENT_SETTINGS;
+      if (errors.length) {
+        console.warn('[IndiaMART Agent] Ignoring invalid agent settings, using defaults:', errors);
+      }
+      console.log(`[IndiaMART Agent] Lead detection: ${agentSettings.detectionMode}, harvest depth ${agentSettings.harvestDepth}, detail enrichment ${agentSettings.enrichDetails ? 'on' : 'off'}`);
+      if (agentSettings.detectionMode === 'incremental') {
+        observeLeadFeed();
+      } else {
+        stopObservingLeadFeed();
+      }
+      setupPeriodicRefresh();
+      harvestLeadFeed();
+    });
+  };
+
   // Initial scraping
   const startScrapeLoop = () => {
     let attempts = 0;
@@ -918,11 +1183,19 @@ import type { Lead } from './types';
       const leads = scrapeLeads();
       if (leads.length > 0) {
         clearInterval(interval);
+        initialScrapeSettled = true;
         chrome.runtime.sendMessage({ type: 'LEADS_DATA', payload: leads });
         // Also run filtering
         processLeadsWithFiltering();
+        // Then look below the fold, if enabled
+        loadAgentSettings().then((settings) => {
+          agentSettings = settings;
+          harvestLeadFeed();
+        });
       } else if (attempts >= SCRAPE_MAX_ATTEMPTS) {
         clearInterval(interval);
+        initialScrapeSettled = true;
+        reportExtractionHealth([]);
         chrome.runtime.sendMessage({
           type: 'SCRAPING_ERROR',
           error: 'Could not find any leads on the page. Please ensure they are visible.',
@@ -932,5 +1205,8 @@ import type { Lead } from './types';
   };
   
   syncAutoContactState();
+  watchFilterConfig();
+  watchSelectorPack();
+  watchAgentSettings();
   startScrapeLoop();
 })(); // End of IIFE
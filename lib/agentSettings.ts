@@ -0,0 +1,139 @@
+/// <reference types="chrome" />
+import type { AgentSettings, LeadDetectionMode } from '../types';
+import { DEFAULT_FEEDS, normalizeFeeds } from './feeds';
+import { DEFAULT_WORKING_HOURS, normalizeWorkingHours } from './workingHours';
+
+// Agent behaviour that isn't a filter rule; edited from the popup, read by the content script
+export const AGENT_SETTINGS_KEY = 'indiamart_agent_settings';
+export const AGENT_SETTINGS_VERSION = 1;
+
+export const DETECTION_MODES: LeadDetectionMode[] = ['incremental', 'reload'];
+export const MAX_QUIET_RELOAD_MINUTES = 240;
+export const MAX_HARVEST_DEPTH = 20;
+export const MIN_FEED_ROTATION_MINUTES = 5;
+export const MAX_FEED_ROTATION_MINUTES = 240;
+export const MAX_ENRICH_PER_PASS = 20;
+export const MAX_CONTACT_ATTEMPTS = 10;
+export const MAX_CONTACT_RETRY_MINUTES = 120;
+
+export const DEFAULT_AGENT_SETTINGS: AgentSettings = {
+  version: AGENT_SETTINGS_VERSION,
+  detectionMode: 'incremental',
+  quietReloadMinutes: 10,
+  harvestDepth: 0,
+  harvestMaxAgeHours: 48,
+  feeds: DEFAULT_FEEDS,
+  feedRotationMinutes: 20,
+  enrichDetails: false,
+  enrichMaxPerPass: 5,
+  contactMaxAttempts: 3,
+  contactRetryMinutes: 5,
+  maxContactsPerHour: 0,
+  maxContactsPerDay: 0,
+  minCreditReserve: 0,
+  workingHours: DEFAULT_WORKING_HOURS,
+};
+
+export interface AgentSettingsValidation {
+  settings?: AgentSettings;
+  errors: string[];
+}
+
+type NumericSetting = { [K in keyof AgentSettings]: AgentSettings[K] extends number ? K : never }[keyof AgentSettings];
+
+// Form inputs arrive as text; a missing field takes its default
+const normalizeNumber = (
+  raw: Record<string, unknown>,
+  key: NumericSetting,
+  label: string,
+  min: number,
+  max: number,
+  errors: string[]
+): number => {
+  const value = raw[key] ?? DEFAULT_AGENT_SETTINGS[key];
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < min || amount > max) {
+    errors.push(max === Infinity ? `${label} must be a number of ${min} or more.` : `${label} must be a number from ${min} to ${max}.`);
+    return DEFAULT_AGENT_SETTINGS[key];
+  }
+  return amount;
+};
+
+// Validates untrusted input (settings form or storage); missing fields take their defaults
+export const validateAgentSettings = (input: unknown): AgentSettingsValidation => {
+  if (input === undefined || input === null) {
+    return { settings: DEFAULT_AGENT_SETTINGS, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Agent settings must be an object.'] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+
+  const detectionMode = raw.detectionMode ?? DEFAULT_AGENT_SETTINGS.detectionMode;
+  if (!DETECTION_MODES.includes(detectionMode as LeadDetectionMode)) {
+    errors.push(`Lead detection must be one of ${DETECTION_MODES.join(', ')}.`);
+  }
+
+  const quietReloadMinutes = normalizeNumber(raw, 'quietReloadMinutes', 'Quiet period before a reload (minutes)', 1, MAX_QUIET_RELOAD_MINUTES, errors);
+  const harvestDepth = normalizeNumber(raw, 'harvestDepth', 'Harvest depth', 0, MAX_HARVEST_DEPTH, errors);
+  const harvestMaxAgeHours = normalizeNumber(raw, 'harvestMaxAgeHours', 'Harvest age limit (hours)', 0, Infinity, errors);
+  const feeds = normalizeFeeds(raw.feeds ?? DEFAULT_AGENT_SETTINGS.feeds, errors);
+  const feedRotationMinutes = normalizeNumber(raw, 'feedRotationMinutes', 'Time on each feed (minutes)', MIN_FEED_ROTATION_MINUTES, MAX_FEED_ROTATION_MINUTES, errors);
+
+  const enrichDetails = raw.enrichDetails ?? DEFAULT_AGENT_SETTINGS.enrichDetails;
+  if (typeof enrichDetails !== 'boolean') {
+    errors.push('Detail enrichment must be on or off.');
+  }
+  const enrichMaxPerPass = normalizeNumber(raw, 'enrichMaxPerPass', 'Detail views per pass', 1, MAX_ENRICH_PER_PASS, errors);
+
+  const contactMaxAttempts = normalizeNumber(raw, 'contactMaxAttempts', 'Contact attempts', 1, MAX_CONTACT_ATTEMPTS, errors);
+  const contactRetryMinutes = normalizeNumber(raw, 'contactRetryMinutes', 'First retry after (minutes)', 1, MAX_CONTACT_RETRY_MINUTES, errors);
+
+  const maxContactsPerHour = normalizeNumber(raw, 'maxContactsPerHour', 'Contacts per hour', 0, Infinity, errors);
+  const maxContactsPerDay = normalizeNumber(raw, 'maxContactsPerDay', 'Contacts per day', 0, Infinity, errors);
+  const minCreditReserve = normalizeNumber(raw, 'minCreditReserve', 'Credit reserve', 0, Infinity, errors);
+  const workingHours = normalizeWorkingHours(raw.workingHours ?? DEFAULT_AGENT_SETTINGS.workingHours, errors);
+
+  if (errors.length) return { errors };
+  return {
+    settings: {
+      version: AGENT_SETTINGS_VERSION,
+      detectionMode: detectionMode as LeadDetectionMode,
+      quietReloadMinutes,
+      harvestDepth: Math.floor(harvestDepth),
+      harvestMaxAgeHours,
+      feeds,
+      feedRotationMinutes,
+      enrichDetails: enrichDetails as boolean,
+      enrichMaxPerPass: Math.floor(enrichMaxPerPass),
+      contactMaxAttempts: Math.floor(contactMaxAttempts),
+      contactRetryMinutes,
+      maxContactsPerHour: Math.floor(maxContactsPerHour),
+      maxContactsPerDay: Math.floor(maxContactsPerDay),
+      minCreditReserve: Math.floor(minCreditReserve),
+      workingHours,
+    },
+    errors,
+  };
+};
+
+export const loadAgentSettings = async (): Promise<AgentSettings> => {
+  try {
+    const result = await chrome.storage.local.get(AGENT_SETTINGS_KEY);
+    const { settings, errors } = validateAgentSettings(result[AGENT_SETTINGS_KEY]);
+    if (settings) return settings;
+    console.warn('[IndiaMART Agent] Stored agent settings are invalid, using defaults:', errors);
+  } catch (error) {
+    console.error('[IndiaMART Agent] Error loading agent settings:', error);
+  }
+  return DEFAULT_AGENT_SETTINGS;
+};
+
+export const saveAgentSettings = async (input: unknown): Promise<AgentSettingsValidation> => {
+  const validation = validateAgentSettings(input);
+  if (validation.settings) {
+    await chrome.storage.local.set({ [AGENT_SETTINGS_KEY]: validation.settings });
+  }
+  return validation;
+};
@@ -0,0 +1,66 @@
+import type { BuyerTrust } from '../types';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// "3 Years", "1 year 4 months", "6 Months", "Jan 2019", "2019" → whole months of membership
+const membershipMonths = (text: string, now: number): number | undefined => {
+  const lower = text.toLowerCase();
+  const years = lower.match(/(\d+(?:\.\d+)?)\+?\s*(?:years?|yrs?)\b/);
+  const months = lower.match(/(\d+)\+?\s*(?:months?|mths?)\b/);
+  if (years || months) {
+    return Math.round(Number(years?.[1] || 0) * 12 + Number(months?.[1] || 0));
+  }
+  const since = lower.match(/\b(?:([a-z]{3})[a-z]*[\s,'-]*)?((?:19|20)\d{2})\b/);
+  if (!since) return undefined;
+  const month = since[1] ? MONTHS.indexOf(since[1]) : 0;
+  const current = new Date(now);
+  const elapsed = (current.getFullYear() - Number(since[2])) * 12 + current.getMonth() - Math.max(0, month);
+  return elapsed >= 0 ? elapsed : undefined;
+};
+
+const flag = (text: string, positive: RegExp): boolean | undefined => (positive.test(text) ? true : undefined);
+
+/**
+ * Reads the buyer-quality badges from a lead card's visible text plus its icon tooltips
+ * (title/alt/aria-label). Fields are left undefined when the card doesn't show them, so rules
+ * can tell "not verified" apart from "not shown".
+ */
+export const parseBuyerTrust = (text: string, now = Date.now()): BuyerTrust => {
+  const normalized = text.replace(/\s+/g, ' ');
+  const trust: BuyerTrust = {
+    mobileVerified: flag(normalized, /\b(?:mobile|phone)(?:\s*(?:no\.?|number))?\s*(?:is\s*)?verified\b|\bverified\s*(?:mobile|phone)\b/i),
+    emailVerified: flag(normalized, /\be-?mail(?:\s*id)?\s*(?:is\s*)?verified\b|\bverified\s*e-?mail\b/i),
+    gstRegistered: flag(normalized, /\bgst(?:in)?(?:\s*(?:no\.?|number))?\s*(?:is\s*)?(?:registered|verified|available)\b|\bgst\s*registered\b|\bgstin\s*[:\-]?\s*\d{2}[a-z]{5}\d{4}[a-z]/i),
+  };
+
+  const memberSince = normalized.match(/\bmember\s*since\s*[:\-]?\s*((?:\d+(?:\.\d+)?\+?\s*(?:years?|yrs?|months?|mths?)\s*){1,2}|[a-z]{3,9}[\s,'-]*(?:19|20)\d{2}|(?:19|20)\d{2})/i);
+  if (memberSince) {
+    trust.memberSince = memberSince[1].trim();
+    trust.membershipMonths = membershipMonths(memberSince[1], now);
+  }
+
+  const purchases = normalized.match(/\b(?:buyer\s*)?(?:has\s*)?purchased\s*(\d+)\s*times?\b/i) || normalized.match(/\b(\d+)\s*(?:past\s*)?purchases?\b/i);
+  if (purchases) trust.purchaseCount = Number(purchases[1]);
+
+  const contacted =
+    normalized.match(/\b(\d+)\+?\s*(?:sellers?|suppliers?)\s*(?:have\s*)?(?:already\s*)?contacted\b/i) ||
+    normalized.match(/\bcontacted\s*by\s*(\d+)\+?\s*(?:sellers?|suppliers?)\b/i);
+  if (contacted) trust.sellersContacted = Number(contacted[1]);
+
+  return trust;
+};
+
+// "Mobile ✓ · GST ✓ · 3 yrs · 4 purchases · 2 sellers contacted"
+export const formatBuyerTrust = (trust: BuyerTrust | undefined): string => {
+  if (!trust) return '';
+  const parts: string[] = [];
+  if (trust.mobileVerified) parts.push('Mobile ✓');
+  if (trust.emailVerified) parts.push('Email ✓');
+  if (trust.gstRegistered) parts.push('GST ✓');
+  if (trust.membershipMonths !== undefined) {
+    parts.push(trust.membershipMonths >= 12 ? `member ${Math.floor(trust.membershipMonths / 12)} yr` : `member ${trust.membershipMonths} mo`);
+  }
+  if (trust.purchaseCount !== undefined) parts.push(`${trust.purchaseCount} purchases`);
+  if (trust.sellersContacted !== undefined) parts.push(`${trust.sellersContacted} sellers contacted`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,70 @@
+import type { AgentSettings, ContactBudgetStatus, ContactQueueEntry, CreditBalance, FilterProfile } from '../types';
+import { startOfNextZonedDay, startOfZonedDay } from './workingHours';
+
+// Contact budget: hourly, daily and per-profile caps counted from the contact queue's history,
+// plus a reserve of BuyLead credits read from the Seller Portal header
+export const CREDIT_BALANCE_KEY = 'indiamart_credit_balance';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Opening a lead spends a credit, so every click counts, whether the reply then went out, failed or
+// went unconfirmed. Entries recorded before clicks were tracked count once, when they were done.
+const spentAt = (queue: ContactQueueEntry[]): { at: number; profileId?: string }[] =>
+  queue.flatMap((entry) => {
+    const clicks = entry.clickedAt ?? (entry.status === 'done' && entry.completedAt !== undefined ? [entry.completedAt] : []);
+    return clicks.map((at) => ({ at, profileId: entry.lead.profileId }));
+  });
+
+export const evaluateContactBudget = (
+  queue: ContactQueueEntry[],
+  settings: Pick<AgentSettings, 'maxContactsPerHour' | 'maxContactsPerDay' | 'minCreditReserve' | 'workingHours'>,
+  profiles: FilterProfile[],
+  credits?: CreditBalance,
+  now = Date.now()
+): ContactBudgetStatus => {
+  // Days run midnight to midnight in the working-hours time zone, so "per day" is the working day
+  const { timeZone } = settings.workingHours;
+  const contacts = spentAt(queue);
+  const lastHour = contacts.filter(({ at }) => at > now - HOUR_MS).map(({ at }) => at);
+  const today = contacts.filter(({ at }) => at >= startOfZonedDay(now, timeZone));
+
+  const byProfile: ContactBudgetStatus['byProfile'] = {};
+  profiles
+    .filter((profile) => profile.dailyContactCap > 0)
+    .forEach((profile) => {
+      byProfile[profile.id] = {
+        profileName: profile.name,
+        contactsToday: today.filter(({ profileId }) => profileId === profile.id).length,
+        cap: profile.dailyContactCap,
+      };
+    });
+
+  const status: ContactBudgetStatus = {
+    contactsLastHour: lastHour.length,
+    contactsToday: today.length,
+    maxContactsPerHour: settings.maxContactsPerHour,
+    maxContactsPerDay: settings.maxContactsPerDay,
+    credits,
+    minCreditReserve: settings.minCreditReserve,
+    byProfile,
+  };
+
+  if (credits && credits.credits <= settings.minCreditReserve) {
+    status.pausedReason = `BuyLead credits low: ${credits.credits} left (reserve ${settings.minCreditReserve})`;
+  } else if (settings.maxContactsPerDay > 0 && today.length >= settings.maxContactsPerDay) {
+    status.pausedReason = `Daily cap reached: ${today.length}/${settings.maxContactsPerDay} contacts today`;
+    status.resumesAt = startOfNextZonedDay(now, timeZone);
+  } else if (settings.maxContactsPerHour > 0 && lastHour.length >= settings.maxContactsPerHour) {
+    status.pausedReason = `Hourly cap reached: ${lastHour.length}/${settings.maxContactsPerHour} contacts in the last hour`;
+    // Room opens when enough of the last hour's contacts age out
+    const oldestCounted = lastHour.sort((a, b) => a - b)[lastHour.length - settings.maxContactsPerHour];
+    status.resumesAt = oldestCounted + HOUR_MS;
+  }
+  return status;
+};
+
+/** True when the profile that qualified the lead has used up its contacts for today. */
+export const profileCapReached = (status: ContactBudgetStatus, profileId?: string): boolean => {
+  const profile = profileId ? status.byProfile[profileId] : undefined;
+  return Boolean(profile && profile.contactsToday >= profile.cap);
+};
@@ -0,0 +1,39 @@
+import type { AgentSettings, ContactFailureReason, ContactQueueEntry } from '../types';
+
+// Retry policy for failed contacts: transient failures come back with exponential backoff until
+// the attempts run out; everything else goes straight to the dead-letter list
+
+export const CONTACT_FAILURE_LABELS: Record<ContactFailureReason, string> = {
+  card_not_found: 'Lead card not on the page',
+  lead_mismatch: 'Card shows a different enquiry',
+  contact_button_missing: '"Contact Buyer Now" not found',
+  reply_button_missing: '"Send Reply" not found',
+  reply_box_unavailable: 'Reply box unavailable for the template',
+  refused: 'Refused by IndiaMART',
+  interrupted: 'Interrupted mid-contact',
+  unknown: 'Unknown error',
+};
+
+// Only failures before "Contact Buyer Now" is clicked: the page may simply not be ready
+// (re-rendering, scrolled), so another go later is safe. After the click (no "Send Reply", an
+// unknown error, a refusal, an interruption) a credit may already be spent, and a mismatch means
+// the card is not what was queued; those need a person to look before clicking again.
+export const TRANSIENT_FAILURES: ContactFailureReason[] = ['card_not_found', 'contact_button_missing'];
+
+const RETRY_JITTER = 0.2; // retries land up to 20% late
+const MAX_RETRY_DELAY = 6 * 60 * 60 * 1000;
+
+/**
+ * When to try a failed entry again, or undefined when it should be dead-lettered.
+ * `entry.attempts` already counts the attempt that just failed.
+ */
+export const nextRetryAt = (
+  entry: ContactQueueEntry,
+  reason: ContactFailureReason,
+  settings: Pick<AgentSettings, 'contactMaxAttempts' | 'contactRetryMinutes'>,
+  now = Date.now()
+): number | undefined => {
+  if (!TRANSIENT_FAILURES.includes(reason) || entry.attempts >= settings.contactMaxAttempts) return undefined;
+  const backoff = settings.contactRetryMinutes * 60 * 1000 * 2 ** Math.max(0, entry.attempts - 1);
+  return now + Math.min(MAX_RETRY_DELAY, backoff) * (1 + Math.random() * RETRY_JITTER);
+};
@@ -0,0 +1,84 @@
+import type { ContactOutcome } from '../types';
+import { sanitize } from './scraper';
+
+// Signs on the page that IndiaMART accepted (or refused) a reply, read after "Send Reply".
+// Pure DOM; the content script polls these until one shows up or the wait runs out.
+
+export interface ContactVerification {
+  outcome: ContactOutcome;
+  /** What was seen, e.g. 'toast "Reply sent successfully"', or why it failed. */
+  detail: string;
+}
+
+const NOTICE_SELECTOR = '[class*="toast"], [class*="snackbar"], [class*="notify"], [class*="alert"], [role="alert"], [role="status"], [role="dialog"], .modal';
+// IndiaMART's own reply form is a dialog too; its labels and hints are not a result
+const REPLY_FORM_CONTENT = 'textarea, [contenteditable="true"], form';
+const CONFIRMATION_TEXT = /(?:reply|message|response|enquiry)\s+(?:has\s+been\s+|was\s+)?sent|sent\s+successfully|successfully\s+(?:sent|contacted|replied)|thank\s+you\s+for\s+contacting/i;
+const FAILURE_TEXT = /insufficient|not\s+enough\s+credit|no\s+credits?\s+left|(?:credit|daily|purchase)\s+limit|failed|went\s+wrong|try\s+again|unable\s+to|already\s+(?:purchased|contacted)\s+by\s+(?:maximum|max)/i;
+// A label of its own, not the "5 sellers contacted" trust badge
+const CONTACTED_LABEL = /^(?:✓|✔)?\s*(?:contacted|replied|reply\s+sent|enquiry\s+replied)$/i;
+const CREDIT_SELECTOR = '[class*="credit"], [id*="credit"], [class*="Credit"], [id*="Credit"]';
+const CREDIT_TEXT = /credits?\D{0,30}?(\d[\d,]*)|(\d[\d,]*)\s*(?:buy\s*lead\s*)?credits?/i;
+
+const isShown = (el: HTMLElement) => !el.hidden && el.getAttribute('aria-hidden') !== 'true' && el.style.display !== 'none';
+
+const summarize = (text: string) => (text.length > 80 ? `${text.slice(0, 77)}…` : text);
+
+const noticeText = (notice: Element) => sanitize(notice.textContent?.replace(/\s+/g, ' '));
+
+const listNotices = (doc: Document): HTMLElement[] =>
+  Array.from(doc.querySelectorAll<HTMLElement>(NOTICE_SELECTOR)).filter(
+    (notice) => isShown(notice) && !notice.matches(REPLY_FORM_CONTENT) && !notice.querySelector(REPLY_FORM_CONTENT)
+  );
+
+/**
+ * Toasts, alerts and dialogs on the page, taken right before "Send Reply" is clicked. Only notices
+ * that appear after the click are read as its result.
+ */
+export const snapshotContactNotices = (doc: Document): Set<Element> => new Set(listNotices(doc));
+
+/** BuyLead credits left as shown in the header, when the page shows them. */
+export const readCreditBalance = (doc: Document): number | undefined => {
+  for (const el of Array.from(doc.querySelectorAll<HTMLElement>(CREDIT_SELECTOR))) {
+    const match = sanitize(el.textContent).match(CREDIT_TEXT);
+    const digits = match?.[1] || match?.[2];
+    if (digits) return Number(digits.replace(/,/g, ''));
+  }
+  return undefined;
+};
+
+/** True when the card shows its own "Contacted" / "Replied" label. */
+export const isCardMarkedContacted = (card: Element): boolean =>
+  Array.from(card.querySelectorAll<HTMLElement>('span, div, button, a, label, p, b, strong'))
+    .some((el) => el.children.length === 0 && CONTACTED_LABEL.test(sanitize(el.textContent)));
+
+/**
+ * The outcome the page shows right now, or undefined while there is nothing conclusive yet.
+ * A failure notice wins over everything; then a confirmation notice, the card's "Contacted"
+ * label, and a drop in the credit balance.
+ */
+export const checkContactOutcome = (
+  doc: Document,
+  card: Element | null,
+  staleNotices: Set<Element>,
+  creditsBefore?: number
+): ContactVerification | undefined => {
+  const notices = listNotices(doc)
+    .filter((notice) => !staleNotices.has(notice))
+    .map(noticeText)
+    .filter(Boolean);
+
+  const failure = notices.find((text) => FAILURE_TEXT.test(text));
+  if (failure) return { outcome: 'failed', detail: `IndiaMART reported: "${summarize(failure)}"` };
+
+  const confirmation = notices.find((text) => CONFIRMATION_TEXT.test(text));
+  if (confirmation) return { outcome: 'confirmed', detail: `confirmation "${summarize(confirmation)}"` };
+
+  if (card && isCardMarkedContacted(card)) return { outcome: 'confirmed', detail: 'card marked as contacted' };
+
+  const creditsAfter = readCreditBalance(doc);
+  if (creditsBefore !== undefined && creditsAfter !== undefined && creditsAfter < creditsBefore) {
+    return { outcome: 'confirmed', detail: `credits ${creditsBefore} → ${creditsAfter}` };
+  }
+  return undefined;
+};
@@ -0,0 +1,87 @@
+import type { OrderValueConfidence } from '../types';
+
+export interface ParsedRupeeRange {
+  raw?: string;
+  min?: number;
+  max?: number;
+  /** high: explicit amounts; medium: open-ended or an inferred multiplier; low: nothing usable. */
+  confidence?: OrderValueConfidence;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  l: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  lakh: 1e5,
+  lakhs: 1e5,
+  million: 1e6,
+  mn: 1e6,
+  cr: 1e7,
+  crore: 1e7,
+  crores: 1e7,
+};
+
+const AMOUNT_PATTERN = /(\d[\d,]*(?:\.\d+)?)\s*(thousand|lakhs?|lacs?|l|crores?|cr|million|mn|k)?\b/gi;
+const UPPER_BOUND_PATTERN = /\b(up\s*to|upto|below|less\s+than|under|max(?:imum)?)\b/i;
+const LOWER_BOUND_PATTERN = /\b(above|more\s+than|over|greater\s+than|min(?:imum)?)\b|\+\s*$/i;
+
+interface Amount {
+  value: number;
+  multiplier?: number;
+}
+
+const readAmounts = (text: string): Amount[] =>
+  Array.from(text.matchAll(AMOUNT_PATTERN))
+    .map((match) => {
+      const value = Number(match[1].replace(/,/g, ''));
+      const multiplier = match[2] ? MULTIPLIERS[match[2].toLowerCase()] : undefined;
+      return { value, multiplier };
+    })
+    .filter((amount) => Number.isFinite(amount.value));
+
+// Handles the "Probable Order Value" formats IndiaMART shows: "Rs. 1 to 2 Lakh", "₹50,000 - 1 Lakh",
+// "Upto 5 Lakh", "Above ₹10 Crore", "Rs 25,000", "1.5 Cr".
+export const parseRupeeRange = (value?: string | null): ParsedRupeeRange => {
+  if (!value) return {};
+  const raw = value.trim();
+  if (!raw) return {};
+
+  const text = raw.replace(/₹|\binr\b|\brs\.?/gi, ' ');
+  const amounts = readAmounts(text).slice(0, 2);
+  if (amounts.length === 0) return { raw, confidence: 'low' };
+
+  let confidence: OrderValueConfidence = 'high';
+  const [first, second] = amounts;
+  let low = first.value * (first.multiplier ?? 1);
+
+  if (second) {
+    const high = second.value * (second.multiplier ?? 1);
+    // "1 to 2 Lakh": the unit written once applies to both ends, as long as the range stays ordered
+    if (!first.multiplier && second.multiplier && first.value * second.multiplier <= high) {
+      low = first.value * second.multiplier;
+      confidence = 'medium';
+    }
+    return { raw, min: Math.min(low, high), max: Math.max(low, high), confidence };
+  }
+
+  if (UPPER_BOUND_PATTERN.test(text)) {
+    return { raw, max: low, confidence: 'medium' };
+  }
+  if (LOWER_BOUND_PATTERN.test(text)) {
+    return { raw, min: low, confidence: 'medium' };
+  }
+  return { raw, min: low, max: low, confidence };
+};
+
+export const formatRupees = (amount: number): string => `₹${amount.toLocaleString('en-IN')}`;
+
+export const formatRupeeRange = (min?: number, max?: number): string => {
+  if (min !== undefined && max !== undefined) {
+    return min === max ? formatRupees(min) : `${formatRupees(min)} – ${formatRupees(max)}`;
+  }
+  if (max !== undefined) return `Up to ${formatRupees(max)}`;
+  if (min !== undefined) return `Above ${formatRupees(min)}`;
+  return '';
+};
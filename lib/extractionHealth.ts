@@ -0,0 +1,60 @@
+import type { ExtractionHealth, HealthField, Lead } from '../types';
+
+export const EXTRACTION_HEALTH_KEY = 'indiamart_extraction_health';
+
+// Below this share of cards with a critical field, auto-contact pauses
+export const MIN_FIELD_COVERAGE = 0.6;
+// Fewer cards than this is too small a sample to judge field coverage (e.g. a filtered view with
+// two leads). No cards at all is different: when the page lists leads, or the feed had cards on the
+// previous pass, that means the card selector broke. Otherwise the feed is just empty.
+export const MIN_HEALTH_SAMPLE = 3;
+export const NO_CARDS_DETAIL = 'card selector matched nothing';
+// Cards seen on each feed's last pass, so an empty pass can be told from a feed that was always empty
+export const FEED_CARD_COUNTS_KEY = 'indiamart_feed_card_counts';
+
+// A broken selector shows up as these fields going missing on every card
+export const CRITICAL_FIELDS: HealthField[] = ['companyName', 'enquiryTitle', 'location', 'timestamp'];
+
+const hasText = (value?: string) => Boolean(value && value !== 'N/A');
+
+const FIELD_PRESENT: Record<HealthField, (lead: Lead) => boolean> = {
+  companyName: (lead) => hasText(lead.companyName),
+  enquiryTitle: (lead) => hasText(lead.enquiryTitle) && lead.enquiryTitle !== 'No requirement specified.',
+  location: (lead) => hasText(lead.location),
+  timestamp: (lead) => hasText(lead.timestamp),
+  quantity: (lead) => lead.quantity !== undefined,
+  category: (lead) => hasText(lead.category),
+  orderValue: (lead) => lead.probableOrderValueMin !== undefined || lead.probableOrderValueMax !== undefined,
+};
+
+export const HEALTH_FIELDS = Object.keys(FIELD_PRESENT) as HealthField[];
+
+export const buildExtractionHealth = (
+  leads: Lead[],
+  selectorRevision: string,
+  now = Date.now(),
+  cardsExpected = true
+): ExtractionHealth => {
+  const coverage = {} as Record<HealthField, number>;
+  HEALTH_FIELDS.forEach((field) => {
+    const present = leads.filter(FIELD_PRESENT[field]).length;
+    coverage[field] = leads.length ? Number((present / leads.length).toFixed(2)) : 0;
+  });
+  const degradedFields = leads.length >= MIN_HEALTH_SAMPLE
+    ? CRITICAL_FIELDS.filter((field) => coverage[field] < MIN_FIELD_COVERAGE)
+    : [];
+  return {
+    checkedAt: now,
+    selectorRevision,
+    cards: leads.length,
+    coverage,
+    healthy: leads.length > 0 ? degradedFields.length === 0 : !cardsExpected,
+    degradedFields,
+  };
+};
+
+// "companyName 20%, location 0%", or why there was nothing to measure
+export const formatDegradedFields = (health: ExtractionHealth): string =>
+  health.cards === 0
+    ? NO_CARDS_DETAIL
+    : health.degradedFields.map((field) => `${field} ${Math.round(health.coverage[field] * 100)}%`).join(', ');
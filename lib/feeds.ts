@@ -0,0 +1,76 @@
+import type { LeadFeed } from '../types';
+
+// Lead feeds: the Buy Leads pages the agent visits in turn, and which one a page belongs to
+
+export const BLTXN_URL_PATTERN = /^https:\/\/seller\.indiamart\.com\/bltxn\b/;
+export const UNLISTED_FEED_ID = 'unlisted';
+export const UNLISTED_FEED_LABEL = 'Other Buy Leads page';
+
+export const DEFAULT_FEEDS: LeadFeed[] = [
+  { id: 'relevant', label: 'Relevant', url: 'https://seller.indiamart.com/bltxn/?pref=relevant', enabled: true },
+  { id: 'recent', label: 'Recent', url: 'https://seller.indiamart.com/bltxn/?pref=recent', enabled: false },
+];
+
+const slugify = (label: string) => label.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'feed';
+
+export const normalizeFeeds = (value: unknown, errors: string[]): LeadFeed[] => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push('At least one lead feed is required.');
+    return [];
+  }
+  const ids = new Set<string>();
+  const feeds: LeadFeed[] = [];
+  value.forEach((entry, index) => {
+    const raw = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const label = typeof raw.label === 'string' ? raw.label.trim() : '';
+    const url = typeof raw.url === 'string' ? raw.url.trim() : '';
+    if (!label) {
+      errors.push(`Feed ${index + 1} needs a name.`);
+      return;
+    }
+    if (!BLTXN_URL_PATTERN.test(url)) {
+      errors.push(`Feed "${label}" must be a Buy Leads URL (https://seller.indiamart.com/bltxn/…).`);
+      return;
+    }
+    // Ids key the per-feed stats, so keep a stored id; new feeds get one from their name
+    let id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : slugify(label);
+    for (let n = 2; ids.has(id) || id === UNLISTED_FEED_ID; n++) id = `${slugify(label)}-${n}`;
+    ids.add(id);
+    feeds.push({ id, label, url, enabled: raw.enabled !== false });
+  });
+  if (feeds.length && !feeds.some((feed) => feed.enabled)) {
+    errors.push('Enable at least one lead feed.');
+  }
+  return feeds;
+};
+
+/**
+ * The feed a page belongs to: same path, carrying every query parameter of the feed's URL.
+ * When several match, the one with the most parameters (the most specific) wins.
+ */
+export const matchFeed = (pageUrl: string | undefined, feeds: LeadFeed[]): LeadFeed | undefined => {
+  let page: URL;
+  try {
+    page = new URL(pageUrl || '');
+  } catch {
+    return undefined;
+  }
+  const trimPath = (path: string) => path.replace(/\/+$/, '');
+  let best: { feed: LeadFeed; params: number } | undefined;
+  feeds.forEach((feed) => {
+    const target = new URL(feed.url);
+    if (target.host !== page.host || trimPath(target.pathname) !== trimPath(page.pathname)) return;
+    const params = Array.from(target.searchParams.entries());
+    if (!params.every(([key, value]) => page.searchParams.getAll(key).includes(value))) return;
+    if (!best || params.length > best.params) best = { feed, params: params.length };
+  });
+  return best?.feed;
+};
+
+// Next enabled feed after the one the page is on; the first enabled feed when it's on none of them
+export const nextFeed = (feeds: LeadFeed[], currentUrl: string | undefined): LeadFeed | undefined => {
+  const enabled = feeds.filter((feed) => feed.enabled);
+  const current = matchFeed(currentUrl, feeds);
+  const index = current ? enabled.findIndex((feed) => feed.id === current.id) : -1;
+  return enabled[(index + 1) % enabled.length];
+};
@@ -0,0 +1,247 @@
+/// <reference types="chrome" />
+import type { FilterConfig, FilterProfile, FilterProfileSet, QuantityUnit, ScoreSignal } from '../types';
+import { QUANTITY_UNITS } from './quantity';
+
+// Single rule set from before profiles existed; migrated into the default profile on load
+export const LEGACY_FILTER_CONFIG_KEY = 'indiamart_filter_config';
+export const FILTER_PROFILES_KEY = 'indiamart_filter_profiles';
+export const FILTER_CONFIG_VERSION = 1;
+export const FILTER_PROFILES_VERSION = 1;
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_FILTER_CONFIG: FilterConfig = {
+  version: FILTER_CONFIG_VERSION,
+  enquiryKeywords: [
+    'uniform', 'uniform fabric', 'uniform blazers', 'uniform jackets', 'nurse uniform',
+    'chef coats', 'corporate uniform', 'staff uniform', 'ncc uniform', 'waiter uniform'
+  ],
+  negativeKeywords: ['second hand', 'used uniform', 'sample only', 'stitching job work', 'job work', 'for resale'],
+  synonymGroups: [
+    ['uniform', 'unifrom', 'uniforn', 'vardi', 'wardi', 'dress code'],
+    ['blazer', 'blazzer', 'coat pant'],
+    ['fabric', 'cloth', 'kapda'],
+    ['t shirt', 'tshirt', 'tee shirt'],
+    ['second hand', 'secondhand', 'purana'],
+  ],
+  fuzzyMatch: true,
+  excludedLocations: ['delhi', 'mumbai', 'gurgaon', 'ahmedabad', 'surat', 'thane'],
+  includedLocations: [],
+  foreignIndicators: ['usa', 'uk', 'uae', 'canada', 'australia', 'singapore', 'malaysia'],
+  minQuantity: 100,
+  minQuantityByUnit: { piece: 100, meter: 500 },
+  allowedCategories: [
+    'kids school uniform', 'school uniforms', 'school blazers', 'school uniform fabric',
+    'worker uniform', 'uniform fabric', 'security guard uniform', 'petrol pump uniform',
+    'safety suits', 'boys school uniform', 'surgical gown', 'hospital uniforms', 'corporate uniform'
+  ],
+  minOrderValue: 50000,
+  preferredLocations: [],
+  scoreWeights: {
+    keyword: 25,
+    quantity: 20,
+    orderValue: 20,
+    location: 10,
+    category: 15,
+    freshness: 10,
+  },
+  minScore: 0,
+  maxAgeHours: 0,
+  requireVerifiedMobile: false,
+  requireVerifiedEmail: false,
+  requireGst: false,
+  minMembershipMonths: 0,
+  maxSellersContacted: null,
+};
+
+export const SCORE_SIGNALS: ScoreSignal[] = ['keyword', 'quantity', 'orderValue', 'location', 'category', 'freshness'];
+
+export interface FilterConfigValidation {
+  config?: FilterConfig;
+  errors: string[];
+}
+
+const normalizeTerms = (value: unknown, field: string, errors: string[]): string[] => {
+  if (!Array.isArray(value) || value.some((term) => typeof term !== 'string')) {
+    errors.push(`${field} must be a list of text values.`);
+    return [];
+  }
+  const terms = value.map((term: string) => term.trim().toLowerCase()).filter(Boolean);
+  return Array.from(new Set(terms));
+};
+
+const normalizeSynonymGroups = (value: unknown, errors: string[]): string[][] => {
+  if (!Array.isArray(value) || value.some((group) => !Array.isArray(group))) {
+    errors.push('Synonym groups must be a list of term lists.');
+    return [];
+  }
+  return value
+    .map((group: unknown[], index) => normalizeTerms(group, `Synonym group ${index + 1}`, errors))
+    .filter((group) => group.length > 1);
+};
+
+const normalizeAmount = (value: unknown, field: string, errors: string[], max = Infinity): number => {
+  const amount = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0 || amount > max) {
+    errors.push(max === Infinity ? `${field} must be a number of 0 or more.` : `${field} must be a number from 0 to ${max}.`);
+    return 0;
+  }
+  return amount;
+};
+
+const normalizeWeights = (value: unknown, errors: string[]): Record<ScoreSignal, number> => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const weights = {} as Record<ScoreSignal, number>;
+  SCORE_SIGNALS.forEach((signal) => {
+    weights[signal] = raw[signal] === undefined
+      ? DEFAULT_FILTER_CONFIG.scoreWeights[signal]
+      : normalizeAmount(raw[signal], `Weight for ${signal}`, errors);
+  });
+  return weights;
+};
+
+const normalizeUnitMinimums = (value: unknown, errors: string[]): Partial<Record<QuantityUnit, number>> => {
+  if (value === undefined) return { ...DEFAULT_FILTER_CONFIG.minQuantityByUnit };
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('Per-unit minimum quantities must be a unit → number map.');
+    return {};
+  }
+  const minimums: Partial<Record<QuantityUnit, number>> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([unit, amount]) => {
+    if (!QUANTITY_UNITS.includes(unit as QuantityUnit)) {
+      errors.push(`Unknown quantity unit "${unit}" (use ${QUANTITY_UNITS.join(', ')}).`);
+      return;
+    }
+    minimums[unit as QuantityUnit] = normalizeAmount(amount, `Minimum quantity for ${unit}`, errors);
+  });
+  return minimums;
+};
+
+// Fields added after a config was saved fall back to their defaults
+const withDefault = <K extends keyof FilterConfig>(raw: Record<string, unknown>, key: K): unknown =>
+  raw[key] === undefined ? DEFAULT_FILTER_CONFIG[key] : raw[key];
+
+// Validates untrusted input (editor form or storage) and returns a normalized copy
+export const validateFilterConfig = (input: unknown): FilterConfigValidation => {
+  if (!input || typeof input !== 'object') {
+    return { errors: ['Filter configuration must be an object.'] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const config: FilterConfig = {
+    version: FILTER_CONFIG_VERSION,
+    enquiryKeywords: normalizeTerms(raw.enquiryKeywords, 'Enquiry keywords', errors),
+    negativeKeywords: normalizeTerms(withDefault(raw, 'negativeKeywords'), 'Negative keywords', errors),
+    synonymGroups: normalizeSynonymGroups(withDefault(raw, 'synonymGroups'), errors),
+    fuzzyMatch: withDefault(raw, 'fuzzyMatch') !== false,
+    excludedLocations: normalizeTerms(raw.excludedLocations, 'Excluded locations', errors),
+    includedLocations: normalizeTerms(withDefault(raw, 'includedLocations'), 'Included locations', errors),
+    foreignIndicators: normalizeTerms(raw.foreignIndicators, 'Foreign indicators', errors),
+    minQuantity: normalizeAmount(raw.minQuantity, 'Minimum quantity', errors),
+    minQuantityByUnit: normalizeUnitMinimums(raw.minQuantityByUnit, errors),
+    allowedCategories: normalizeTerms(raw.allowedCategories, 'Allowed categories', errors),
+    minOrderValue: normalizeAmount(raw.minOrderValue, 'Minimum order value', errors),
+    preferredLocations: normalizeTerms(withDefault(raw, 'preferredLocations'), 'Preferred locations', errors),
+    scoreWeights: normalizeWeights(raw.scoreWeights, errors),
+    minScore: normalizeAmount(withDefault(raw, 'minScore'), 'Minimum score', errors, 100),
+    maxAgeHours: normalizeAmount(withDefault(raw, 'maxAgeHours'), 'Maximum lead age', errors),
+    requireVerifiedMobile: raw.requireVerifiedMobile === true,
+    requireVerifiedEmail: raw.requireVerifiedEmail === true,
+    requireGst: raw.requireGst === true,
+    minMembershipMonths: normalizeAmount(withDefault(raw, 'minMembershipMonths'), 'Minimum membership (months)', errors),
+    maxSellersContacted: raw.maxSellersContacted === null || raw.maxSellersContacted === undefined || raw.maxSellersContacted === ''
+      ? null
+      : normalizeAmount(raw.maxSellersContacted, 'Maximum sellers contacted', errors),
+  };
+  if (Array.isArray(raw.enquiryKeywords) && config.enquiryKeywords.length === 0) {
+    errors.push('At least one enquiry keyword is required.');
+  }
+  return errors.length ? { errors } : { config, errors };
+};
+
+export const DEFAULT_FILTER_PROFILES: FilterProfileSet = {
+  version: FILTER_PROFILES_VERSION,
+  profiles: [
+    { ...DEFAULT_FILTER_CONFIG, id: DEFAULT_PROFILE_ID, name: 'Uniforms', active: true, autoContact: true, dailyContactCap: 0 },
+  ],
+};
+
+export interface FilterProfilesValidation {
+  profileSet?: FilterProfileSet;
+  errors: string[];
+}
+
+export const createProfileId = (): string => `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const validateFilterProfiles = (input: unknown): FilterProfilesValidation => {
+  const rawProfiles = (input as Partial<FilterProfileSet> | undefined)?.profiles;
+  if (!Array.isArray(rawProfiles) || rawProfiles.length === 0) {
+    return { errors: ['At least one filter profile is required.'] };
+  }
+
+  const errors: string[] = [];
+  const seenIds = new Set<string>();
+  const profiles: FilterProfile[] = [];
+
+  rawProfiles.forEach((rawProfile: unknown, index) => {
+    const raw = (rawProfile || {}) as Record<string, unknown>;
+    const name = typeof raw.name === 'string' ? raw.name.trim() : '';
+    const label = name || `Profile ${index + 1}`;
+    if (!name) {
+      errors.push(`${label}: a name is required.`);
+    }
+
+    const id = typeof raw.id === 'string' && raw.id.trim() ? raw.id.trim() : createProfileId();
+    if (seenIds.has(id)) {
+      errors.push(`${label}: duplicate profile id "${id}".`);
+    }
+    seenIds.add(id);
+
+    const { config, errors: ruleErrors } = validateFilterConfig(raw);
+    const dailyContactCap = normalizeAmount(raw.dailyContactCap ?? 0, 'Contacts per day', ruleErrors);
+    ruleErrors.forEach((error) => errors.push(`${label}: ${error}`));
+    if (config) {
+      profiles.push({
+        ...config,
+        id,
+        name,
+        active: raw.active !== false,
+        autoContact: raw.autoContact !== false,
+        dailyContactCap: Math.floor(dailyContactCap),
+      });
+    }
+  });
+
+  if (errors.length) return { errors };
+  return { profileSet: { version: FILTER_PROFILES_VERSION, profiles }, errors };
+};
+
+export const loadFilterProfiles = async (): Promise<FilterProfileSet> => {
+  try {
+    const result = await chrome.storage.local.get([FILTER_PROFILES_KEY, LEGACY_FILTER_CONFIG_KEY]);
+    const stored = result[FILTER_PROFILES_KEY];
+    if (stored) {
+      const { profileSet, errors } = validateFilterProfiles(stored);
+      if (profileSet) return profileSet;
+      console.warn('[IndiaMART Agent] Stored filter profiles are invalid, using defaults:', errors);
+      return DEFAULT_FILTER_PROFILES;
+    }
+
+    // Carry a rule set saved before profiles existed over as the default profile
+    const { config } = validateFilterConfig(result[LEGACY_FILTER_CONFIG_KEY]);
+    if (config) {
+      return { ...DEFAULT_FILTER_PROFILES, profiles: [{ ...DEFAULT_FILTER_PROFILES.profiles[0], ...config }] };
+    }
+    return DEFAULT_FILTER_PROFILES;
+  } catch (error) {
+    console.error('[IndiaMART Agent] Error loading filter profiles:', error);
+    return DEFAULT_FILTER_PROFILES;
+  }
+};
+
+export const saveFilterProfiles = async (input: unknown): Promise<FilterProfilesValidation> => {
+  const validation = validateFilterProfiles(input);
+  if (validation.profileSet) {
+    await chrome.storage.local.set({ [FILTER_PROFILES_KEY]: validation.profileSet });
+  }
+  return validation;
+};
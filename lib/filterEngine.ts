@@ -0,0 +1,216 @@
+import type { FilterConfig, FilterProfile, FilterProfileSet, Lead, ProfileTrace, RuleTraceEntry, ScoreComponent } from '../types';
+import { contactDelayMinutesForScore, scoreLead } from './scoring';
+import { formatQuantity, quantityThresholdFor } from './quantity';
+import { formatRupees } from './currency';
+import { findLocationMatch, resolvedLocationOf } from './gazetteer';
+import { ageHoursAt, formatAge } from './freshness';
+import { formatKeywordHit, matchEnquiryKeywords, matchNegativeKeywords } from './keywords';
+import { formatBuyerTrust } from './buyerTrust';
+
+// Rule evaluation shared by the content script and the offline fixture replay
+
+export interface FilterResult {
+  passed: boolean;
+  reason: string;
+  nextContactDelayMinutes: number;
+  score: number;
+  scoreBreakdown: ScoreComponent[];
+  rules: RuleTraceEntry[];
+}
+
+export type ProfileEvaluation = Partial<FilterResult> & { passed: boolean; reason: string; profile?: FilterProfile; trace: ProfileTrace[] };
+
+const formatList = (items: string[], max = 3): string =>
+  items.length > max ? `${items.slice(0, max).join(', ')} +${items.length - max} more` : items.join(', ');
+
+// Every rule is evaluated (no early exit) so the trace shows all reasons a lead failed.
+// Hard rules reject outright; leads that survive them are gated and ranked by their weighted score.
+export const applyIntelligentFilter = (lead: Lead, config: FilterConfig, now = Date.now()): FilterResult => {
+  const { score, breakdown: scoreBreakdown } = scoreLead(lead, config, now);
+  const rules: RuleTraceEntry[] = [];
+  const check = (ruleId: RuleTraceEntry['ruleId'], passed: boolean, value: string, threshold: string, reason: string) => {
+    rules.push({ ruleId, passed, value, threshold, reason: passed ? undefined : reason });
+  };
+
+  // Filter 1: Enquiry keywords as whole words in title/requirement/category/fabric (synonyms, optional fuzzy),
+  // and none of the negative terms
+  const keywordHits = matchEnquiryKeywords(lead, config);
+  check(
+    'keyword',
+    keywordHits.length > 0,
+    keywordHits.length
+      ? formatList(keywordHits.map(formatKeywordHit))
+      : (lead.enquiryTitle || lead.requirement || '').slice(0, 60) || 'no title',
+    `any of ${config.enquiryKeywords.length} keywords`,
+    'No enquiry keywords found'
+  );
+  if (config.negativeKeywords.length > 0) {
+    const negativeHits = matchNegativeKeywords(lead, config);
+    check(
+      'negativeKeyword',
+      negativeHits.length === 0,
+      negativeHits.length ? formatList(negativeHits.map(formatKeywordHit)) : 'none',
+      `none of ${formatList(config.negativeKeywords)}`,
+      `Negative keyword (${negativeHits.map((hit) => hit.keyword).join(', ')})`
+    );
+  }
+  
+  // Filter 2: Location include/exclude at state, district or city level (gazetteer-normalized)
+  const region = resolvedLocationOf(lead);
+  const regionLabel = [lead.city, lead.district, lead.state, lead.pincode].filter(Boolean).join(' / ') || lead.location || 'N/A';
+  if (config.includedLocations.length > 0) {
+    const includedHit = findLocationMatch(region, lead.location, config.includedLocations);
+    check('includedLocation', Boolean(includedHit), regionLabel, `in ${formatList(config.includedLocations)}`, 'Location is outside the included regions');
+  }
+  const excludedHit = findLocationMatch(region, lead.location, config.excludedLocations);
+  check('excludedLocation', !excludedHit, regionLabel, `not in ${formatList(config.excludedLocations)}`, `Location is excluded (${excludedHit})`);
+  
+  // Check for foreign locations (whole words only, so "uk" doesn't match inside an Indian place name)
+  const locationLower = (lead.location || '').toLowerCase();
+  const foreignHit = region.resolved
+    ? undefined
+    : config.foreignIndicators.find(country => new RegExp(`\\b${country.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(locationLower));
+  check('foreignLocation', !foreignHit, foreignHit || lead.location || 'N/A', `not in ${formatList(config.foreignIndicators)}`, 'Foreign location');
+  
+  // Filter 3: Quantity (lower bound, canonical unit) above the minimum for its unit
+  const minQuantity = quantityThresholdFor(config, lead.quantityUnit);
+  const unitLabel = lead.quantityUnit && lead.quantityUnit !== 'other' ? ` ${lead.quantityUnit}` : '';
+  check(
+    'quantity',
+    Boolean(lead.quantity && lead.quantity > minQuantity),
+    lead.quantity ? formatQuantity(lead.quantityMin, lead.quantityMax, lead.quantityUnit, lead.quantityUnitRaw) : lead.quantityRaw || 'missing',
+    `> ${minQuantity}${unitLabel}`,
+    `Quantity <= ${minQuantity}${unitLabel}`
+  );
+  
+  // Filter 4: Category match (exact match; an empty list allows every category)
+  const categoryLower = (lead.category || '').toLowerCase();
+  const hasCategory = config.allowedCategories.length === 0 || config.allowedCategories.some(cat => categoryLower === cat);
+  check(
+    'category',
+    hasCategory || !lead.category,
+    lead.category || 'none',
+    config.allowedCategories.length ? `one of ${config.allowedCategories.length} categories` : 'any',
+    'Category not in allowed list'
+  );
+  
+  // Filter 5: Probable Order Value above the configured floor
+  const orderValue = lead.probableOrderValueMin || lead.probableOrderValueMax || 0;
+  const confidenceNote = lead.probableOrderValueConfidence && lead.probableOrderValueConfidence !== 'high'
+    ? ` (${lead.probableOrderValueConfidence} confidence: "${lead.probableOrderValueRaw}")`
+    : '';
+  check(
+    'orderValue',
+    orderValue > config.minOrderValue,
+    orderValue ? `${formatRupees(orderValue)}${confidenceNote}` : lead.probableOrderValueRaw || 'missing',
+    `> ${formatRupees(config.minOrderValue)}`,
+    `Order value <= ${formatRupees(config.minOrderValue)}`
+  );
+
+  // Filter 6: Lead age (a date we couldn't read is not rejected)
+  if (config.maxAgeHours > 0) {
+    const ageHours = ageHoursAt(lead.postedAt, now);
+    check(
+      'age',
+      ageHours === undefined || ageHours <= config.maxAgeHours,
+      formatAge(lead.postedAt, lead.postedAtPrecision, now) || `unknown ("${lead.timestamp}")`,
+      `<= ${config.maxAgeHours} h`,
+      `Posted more than ${config.maxAgeHours} h ago`
+    );
+  }
+
+  // Filter 7: Buyer trust badges. Required badges must be shown; limits on membership and
+  // competition only apply when the card states them.
+  const trust = lead.buyerTrust || {};
+  const requiredBadges = [
+    config.requireVerifiedMobile && !trust.mobileVerified && 'verified mobile',
+    config.requireVerifiedEmail && !trust.emailVerified && 'verified email',
+    config.requireGst && !trust.gstRegistered && 'GST registration',
+  ].filter(Boolean);
+  if (config.requireVerifiedMobile || config.requireVerifiedEmail || config.requireGst) {
+    check(
+      'buyerVerification',
+      requiredBadges.length === 0,
+      formatBuyerTrust(lead.buyerTrust) || 'no badges',
+      [config.requireVerifiedMobile && 'mobile', config.requireVerifiedEmail && 'email', config.requireGst && 'GST'].filter(Boolean).join(' + '),
+      `Buyer lacks ${requiredBadges.join(', ')}`
+    );
+  }
+  if (config.minMembershipMonths > 0) {
+    check(
+      'buyerMembership',
+      trust.membershipMonths === undefined || trust.membershipMonths >= config.minMembershipMonths,
+      trust.memberSince || 'not shown',
+      `>= ${config.minMembershipMonths} months`,
+      `Buyer member for ${trust.membershipMonths} months`
+    );
+  }
+  if (config.maxSellersContacted !== null) {
+    check(
+      'sellersContacted',
+      trust.sellersContacted === undefined || trust.sellersContacted <= config.maxSellersContacted,
+      trust.sellersContacted === undefined ? 'not shown' : String(trust.sellersContacted),
+      `<= ${config.maxSellersContacted}`,
+      `${trust.sellersContacted} sellers already contacted`
+    );
+  }
+
+  // Filter 8: Minimum weighted score
+  check('minScore', score >= config.minScore, String(score), `>= ${config.minScore}`, `Score ${score} < ${config.minScore}`);
+
+  const failures = rules.filter((rule) => !rule.passed);
+  if (failures.length > 0) {
+    return { passed: false, reason: failures.map((rule) => rule.reason).join(', '), nextContactDelayMinutes: 0, score, scoreBreakdown, rules };
+  }
+  return {
+    passed: true,
+    reason: `Meets all criteria (score ${score})`,
+    nextContactDelayMinutes: contactDelayMinutesForScore(score),
+    score,
+    scoreBreakdown,
+    rules,
+  };
+};
+
+// Evaluate a lead against every active profile; the first profile it passes (in list order) claims it.
+// Rejected leads carry their best score across profiles, for display only.
+export const evaluateProfiles = (lead: Lead, profileSet: FilterProfileSet, now = Date.now()): ProfileEvaluation => {
+  const activeProfiles = profileSet.profiles.filter((profile) => profile.active);
+  if (activeProfiles.length === 0) {
+    return { passed: false, reason: 'No active filter profile', nextContactDelayMinutes: 0, trace: [] };
+  }
+
+  const results = activeProfiles.map((profile) => ({ profile, result: applyIntelligentFilter(lead, profile, now) }));
+  const trace: ProfileTrace[] = results.map(({ profile, result }) => ({
+    profileId: profile.id,
+    profileName: profile.name,
+    passed: result.passed,
+    score: result.score,
+    rules: result.rules,
+  }));
+
+  const match = results.find(({ result }) => result.passed);
+  if (match) {
+    return { ...match.result, profile: match.profile, trace };
+  }
+
+  const best = results.reduce((top, current) => (current.result.score > top.result.score ? current : top)).result;
+  const reason = results
+    .map(({ profile, result }) => (results.length > 1 ? `${profile.name}: ${result.reason}` : result.reason))
+    .join('; ');
+  return { ...best, passed: false, reason, nextContactDelayMinutes: 0, trace };
+};
+
+// Evaluates a lead and records the outcome on it, as the popup and contact queue expect to see it
+export const annotateLead = (lead: Lead, profileSet: FilterProfileSet, now = Date.now()): ProfileEvaluation => {
+  const evaluation = evaluateProfiles(lead, profileSet, now);
+  lead.passedFilter = evaluation.passed;
+  lead.filterReason = evaluation.reason;
+  lead.nextContactDelayMinutes = evaluation.nextContactDelayMinutes;
+  lead.profileId = evaluation.profile?.id;
+  lead.profileName = evaluation.profile?.name;
+  lead.score = evaluation.score;
+  lead.scoreBreakdown = evaluation.scoreBreakdown;
+  lead.filterTrace = evaluation.trace;
+  return evaluation;
+};
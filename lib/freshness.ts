@@ -0,0 +1,146 @@
+import type { PostedAtPrecision } from '../types';
+
+export interface ParsedPostedAt {
+  raw?: string;
+  /** Epoch ms. For day-only dates this is the latest instant that day allows, so ages are a lower bound. */
+  postedAt?: number;
+  precision?: PostedAtPrecision;
+}
+
+const HOUR_MS = 3600000;
+const DAY_MS = 24 * HOUR_MS;
+
+const UNIT_MS: Record<string, number> = {
+  s: 1000, sec: 1000, secs: 1000, second: 1000, seconds: 1000,
+  m: 60000, min: 60000, mins: 60000, minute: 60000, minutes: 60000,
+  h: HOUR_MS, hr: HOUR_MS, hrs: HOUR_MS, hour: HOUR_MS, hours: HOUR_MS,
+  d: DAY_MS, day: DAY_MS, days: DAY_MS,
+  w: 7 * DAY_MS, wk: 7 * DAY_MS, wks: 7 * DAY_MS, week: 7 * DAY_MS, weeks: 7 * DAY_MS,
+};
+
+// "a few mins ago" / "few hours ago": IndiaMART doesn't say how many, so a small count stands in
+const FEW = 3;
+
+// "2 hours", "30 mins", "an hour", "a few mins", "2h30m"; word amounts are whole words ("and" is not "an d")
+const RELATIVE_PART = /(\d+(?:\.\d+)?|(?<![a-z])(?:(?:a\s+)?few|an?)(?=\s))\s*([a-z]+)/g;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const monthIndex = (name: string): number => MONTHS.indexOf(name.slice(0, 3).toLowerCase());
+
+// "10:30 AM", "14:05", "10.30 pm" → minutes after midnight
+const parseClock = (text: string): number | undefined => {
+  const match = text.match(/\b(\d{1,2})[:.](\d{2})(?::\d{2})?\s*(am|pm)?\b/i) || text.match(/\b(\d{1,2})\s*(am|pm)\b/i);
+  if (!match) return undefined;
+  let hours = Number(match[1]);
+  const minutes = match.length === 4 ? Number(match[2]) : 0;
+  const meridiem = (match.length === 4 ? match[3] : match[2])?.toLowerCase();
+  if (meridiem === 'pm' && hours < 12) hours += 12;
+  if (meridiem === 'am' && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) return undefined;
+  return hours * 60 + minutes;
+};
+
+// Calendar day (local time) plus an optional clock time; without one, the end of that day (capped at now)
+const atDay = (year: number, month: number, day: number, text: string, now: number): ParsedPostedAt | undefined => {
+  const date = new Date(year, month, day);
+  if (date.getMonth() !== month || date.getDate() !== day) return undefined;
+  const clock = parseClock(text);
+  if (clock !== undefined) {
+    return { postedAt: date.getTime() + clock * 60000, precision: 'minute' };
+  }
+  return { postedAt: Math.min(now, date.getTime() + DAY_MS - 1), precision: 'day' };
+};
+
+// Dates shown without a year belong to the most recent matching day that isn't in the future
+const withInferredYear = (month: number, day: number, text: string, now: number): ParsedPostedAt | undefined => {
+  const year = new Date(now).getFullYear();
+  // A day's grace for clock skew between IndiaMART and this machine
+  const inFuture = new Date(year, month, day).getTime() > now + DAY_MS;
+  return atDay(inFuture ? year - 1 : year, month, day, text, now);
+};
+
+/**
+ * Parses the posted date IndiaMART shows on a lead card: relative ("2 hrs ago", "2 hours 30 mins ago",
+ * "a few mins ago", "Just now", "Yesterday 4:15 PM") or absolute ("12 Oct", "12-Oct-2025", "12/10/2025", "2025-10-12 14:33:00").
+ * Numeric dates are read day-first, as IndiaMART prints them.
+ */
+export const parsePostedAt = (text: string | undefined, now = Date.now()): ParsedPostedAt => {
+  const raw = text?.replace(/\s+/g, ' ').trim();
+  if (!raw || raw === 'N/A') return {};
+  const lower = raw.toLowerCase();
+
+  if (/\bjust now\b|\bfew (?:seconds|secs?) ago\b/.test(lower)) {
+    return { raw, postedAt: now, precision: 'minute' };
+  }
+
+  // Every amount and unit before "ago" adds up: "2 hours 30 mins ago", "1 day and 4 hrs ago"
+  const ago = lower.match(/^(.*?)\bago\b/);
+  const parts = ago
+    ? Array.from(ago[1].matchAll(RELATIVE_PART)).filter((part) => UNIT_MS[part[2]] !== undefined)
+    : [];
+  if (parts.length > 0) {
+    const amountOf = (amount: string) => (/few/.test(amount) ? FEW : /^an?$/.test(amount) ? 1 : Number(amount));
+    const elapsed = parts.reduce((sum, part) => sum + amountOf(part[1]) * UNIT_MS[part[2]], 0);
+    const finest = Math.min(...parts.map((part) => UNIT_MS[part[2]]));
+    return { raw, postedAt: now - elapsed, precision: finest >= DAY_MS ? 'day' : 'minute' };
+  }
+
+  const today = new Date(now);
+  if (/\btoday\b/.test(lower) || /\byesterday\b/.test(lower)) {
+    const offset = /\byesterday\b/.test(lower) ? 1 : 0;
+    const day = new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset);
+    return { raw, ...atDay(day.getFullYear(), day.getMonth(), day.getDate(), lower, now) };
+  }
+
+  // 2025-10-12, 2025-10-12 14:33:00, 20251012
+  const isoLike = lower.match(/\b(\d{4})-?(\d{2})-?(\d{2})\b/);
+  if (isoLike) {
+    return { raw, ...atDay(Number(isoLike[1]), Number(isoLike[2]) - 1, Number(isoLike[3]), lower.slice(isoLike.index! + isoLike[0].length), now) };
+  }
+
+  // 12/10/2025, 12-10-25, 12.10.2025 (day first)
+  const numeric = lower.match(/\b(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+  if (numeric) {
+    const year = numeric[3].length === 2 ? 2000 + Number(numeric[3]) : Number(numeric[3]);
+    return { raw, ...atDay(year, Number(numeric[2]) - 1, Number(numeric[1]), lower.slice(numeric.index! + numeric[0].length), now) };
+  }
+
+  // 12 Oct, 12-Oct-2025, 12th October 2025
+  const dayMonth = lower.match(/\b(\d{1,2})(?:st|nd|rd|th)?[\s,-]+([a-z]{3,9})\.?(?:[\s,-]+(\d{4}))?\b/);
+  if (dayMonth && monthIndex(dayMonth[2]) >= 0) {
+    const month = monthIndex(dayMonth[2]);
+    const rest = lower.slice(dayMonth.index! + dayMonth[0].length);
+    const parsed = dayMonth[3]
+      ? atDay(Number(dayMonth[3]), month, Number(dayMonth[1]), rest, now)
+      : withInferredYear(month, Number(dayMonth[1]), rest, now);
+    return { raw, ...parsed };
+  }
+
+  // Oct 12, October 12 2025
+  const monthDay = lower.match(/\b([a-z]{3,9})\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?\b/);
+  if (monthDay && monthIndex(monthDay[1]) >= 0) {
+    const month = monthIndex(monthDay[1]);
+    const rest = lower.slice(monthDay.index! + monthDay[0].length);
+    const parsed = monthDay[3]
+      ? atDay(Number(monthDay[3]), month, Number(monthDay[2]), rest, now)
+      : withInferredYear(month, Number(monthDay[2]), rest, now);
+    return { raw, ...parsed };
+  }
+
+  return { raw };
+};
+
+export const ageHoursAt = (postedAt: number | undefined, now = Date.now()): number | undefined =>
+  postedAt === undefined ? undefined : Math.max(0, (now - postedAt) / HOUR_MS);
+
+// "just now", "45 min ago", "5 h ago", "3 d ago"; day-precision ages are prefixed with "≥"
+export const formatAge = (postedAt: number | undefined, precision?: PostedAtPrecision, now = Date.now()): string | undefined => {
+  const hours = ageHoursAt(postedAt, now);
+  if (hours === undefined) return undefined;
+  const prefix = precision === 'day' ? '≥ ' : '';
+  if (hours < 1 / 60) return precision === 'day' ? 'today' : 'just now';
+  if (hours < 1) return `${prefix}${Math.round(hours * 60)} min ago`;
+  if (hours < 48) return `${prefix}${Math.round(hours)} h ago`;
+  return `${prefix}${Math.round(hours / 24)} d ago`;
+};
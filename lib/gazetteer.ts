@@ -0,0 +1,243 @@
+// Offline gazetteer of Indian states/UTs, districts and major cities.
+// Cities map to their district and state; a scraped value is resolved by exact name or alias
+// (never by substring), so "New Delhi Road, Pune" resolves to Pune rather than Delhi.
+// A PIN code on the card resolves by its longest known prefix when the place name doesn't.
+
+import type { LocationLevel } from '../types';
+
+interface StateEntry {
+  name: string;
+  aliases?: string[];
+  /** [city, district (defaults to the city), aliases] */
+  cities: [string, string?, string[]?][];
+}
+
+const STATES: StateEntry[] = [
+  { name: 'Andhra Pradesh', aliases: ['ap'], cities: [['Visakhapatnam', undefined, ['vizag', 'vishakhapatnam']], ['Vijayawada', 'NTR'], ['Guntur'], ['Nellore', 'Sri Potti Sriramulu Nellore'], ['Kurnool'], ['Tirupati'], ['Kakinada'], ['Rajahmundry', 'East Godavari', ['rajamahendravaram']], ['Anantapur', 'Anantapuramu']] },
+  { name: 'Arunachal Pradesh', cities: [['Itanagar', 'Papum Pare']] },
+  { name: 'Assam', cities: [['Guwahati', 'Kamrup Metropolitan'], ['Dibrugarh'], ['Silchar', 'Cachar'], ['Jorhat'], ['Tezpur', 'Sonitpur']] },
+  { name: 'Bihar', cities: [['Patna'], ['Gaya'], ['Bhagalpur'], ['Muzaffarpur'], ['Darbhanga'], ['Purnia']] },
+  { name: 'Chhattisgarh', aliases: ['chattisgarh'], cities: [['Raipur'], ['Bhilai', 'Durg'], ['Durg'], ['Bilaspur'], ['Korba']] },
+  { name: 'Goa', cities: [['Panaji', 'North Goa', ['panjim']], ['Margao', 'South Goa', ['madgaon']], ['Vasco da Gama', 'South Goa']] },
+  { name: 'Gujarat', cities: [['Ahmedabad', undefined, ['amdavad']], ['Surat'], ['Vadodara', undefined, ['baroda']], ['Rajkot'], ['Bhavnagar'], ['Jamnagar'], ['Gandhinagar'], ['Anand'], ['Bharuch'], ['Vapi', 'Valsad'], ['Morbi']] },
+  { name: 'Haryana', cities: [['Gurugram', undefined, ['gurgaon']], ['Faridabad'], ['Panipat'], ['Ambala'], ['Karnal'], ['Rohtak'], ['Hisar'], ['Sonipat', undefined, ['sonepat']], ['Panchkula']] },
+  { name: 'Himachal Pradesh', aliases: ['hp'], cities: [['Shimla'], ['Solan'], ['Baddi', 'Solan'], ['Dharamshala', 'Kangra'], ['Mandi']] },
+  { name: 'Jharkhand', cities: [['Ranchi'], ['Jamshedpur', 'East Singhbhum'], ['Dhanbad'], ['Bokaro', 'Bokaro', ['bokaro steel city']], ['Hazaribagh']] },
+  { name: 'Karnataka', cities: [['Bengaluru', 'Bengaluru Urban', ['bangalore']], ['Mysuru', undefined, ['mysore']], ['Hubballi', 'Dharwad', ['hubli']], ['Mangaluru', 'Dakshina Kannada', ['mangalore']], ['Belagavi', undefined, ['belgaum']], ['Kalaburagi', undefined, ['gulbarga']], ['Davanagere'], ['Ballari', undefined, ['bellary']], ['Tumakuru', undefined, ['tumkur']]] },
+  { name: 'Kerala', cities: [['Thiruvananthapuram', undefined, ['trivandrum']], ['Kochi', 'Ernakulam', ['cochin', 'ernakulam']], ['Kozhikode', undefined, ['calicut']], ['Thrissur', undefined, ['trichur']], ['Kollam', undefined, ['quilon']], ['Kannur'], ['Palakkad']] },
+  { name: 'Madhya Pradesh', aliases: ['mp'], cities: [['Indore'], ['Bhopal'], ['Jabalpur'], ['Gwalior'], ['Ujjain'], ['Sagar'], ['Ratlam'], ['Dewas']] },
+  { name: 'Maharashtra', cities: [['Mumbai', 'Mumbai', ['bombay', 'mumbai suburban', 'mumbai city', 'andheri', 'borivali', 'dadar', 'bandra', 'goregaon', 'malad', 'kurla']], ['Thane'], ['Navi Mumbai', 'Thane'], ['Kalyan', 'Thane', ['kalyan-dombivli', 'dombivli']], ['Bhiwandi', 'Thane'], ['Mira Bhayandar', 'Thane', ['mira road', 'bhayandar']], ['Ulhasnagar', 'Thane'], ['Vasai-Virar', 'Palghar', ['vasai', 'virar']], ['Pune', undefined, ['poona']], ['Pimpri-Chinchwad', 'Pune', ['pimpri', 'chinchwad']], ['Nagpur'], ['Nashik', undefined, ['nasik']], ['Aurangabad', 'Chhatrapati Sambhajinagar', ['chhatrapati sambhajinagar']], ['Solapur'], ['Kolhapur'], ['Amravati'], ['Sangli'], ['Jalgaon'], ['Akola'], ['Ahmednagar', undefined, ['ahilyanagar']], ['Latur'], ['Satara']] },
+  { name: 'Manipur', cities: [['Imphal', 'Imphal West']] },
+  { name: 'Meghalaya', cities: [['Shillong', 'East Khasi Hills']] },
+  { name: 'Mizoram', cities: [['Aizawl']] },
+  { name: 'Nagaland', cities: [['Kohima'], ['Dimapur']] },
+  { name: 'Odisha', aliases: ['orissa'], cities: [['Bhubaneswar', 'Khordha', ['bhubaneshwar']], ['Cuttack'], ['Rourkela', 'Sundargarh'], ['Berhampur', 'Ganjam', ['brahmapur']], ['Sambalpur']] },
+  { name: 'Punjab', cities: [['Ludhiana'], ['Amritsar'], ['Jalandhar', undefined, ['jullundur']], ['Patiala'], ['Bathinda', undefined, ['bhatinda']], ['Mohali', 'Sahibzada Ajit Singh Nagar', ['sas nagar']]] },
+  { name: 'Rajasthan', cities: [['Jaipur'], ['Jodhpur'], ['Udaipur'], ['Kota'], ['Ajmer'], ['Bikaner'], ['Bhilwara'], ['Alwar']] },
+  { name: 'Sikkim', cities: [['Gangtok', 'Gangtok', ['east sikkim']]] },
+  { name: 'Tamil Nadu', aliases: ['tn'], cities: [['Chennai', undefined, ['madras']], ['Coimbatore', undefined, ['kovai']], ['Madurai'], ['Tiruchirappalli', undefined, ['trichy']], ['Salem'], ['Tiruppur', undefined, ['tirupur']], ['Erode'], ['Vellore'], ['Tirunelveli'], ['Thoothukudi', undefined, ['tuticorin']]] },
+  { name: 'Telangana', cities: [['Hyderabad', undefined, ['secunderabad']], ['Warangal', 'Hanamkonda'], ['Karimnagar'], ['Nizamabad'], ['Khammam']] },
+  { name: 'Tripura', cities: [['Agartala', 'West Tripura']] },
+  { name: 'Uttar Pradesh', aliases: ['up'], cities: [['Lucknow'], ['Kanpur', 'Kanpur Nagar'], ['Ghaziabad'], ['Noida', 'Gautam Buddha Nagar', ['greater noida', 'gautam buddh nagar']], ['Agra'], ['Varanasi', undefined, ['banaras', 'benares']], ['Meerut'], ['Prayagraj', undefined, ['allahabad']], ['Bareilly'], ['Aligarh'], ['Moradabad'], ['Gorakhpur'], ['Saharanpur'], ['Jhansi']] },
+  { name: 'Uttarakhand', aliases: ['uttaranchal'], cities: [['Dehradun'], ['Haridwar'], ['Roorkee', 'Haridwar'], ['Haldwani', 'Nainital'], ['Rudrapur', 'Udham Singh Nagar']] },
+  { name: 'West Bengal', aliases: ['wb'], cities: [['Kolkata', undefined, ['calcutta']], ['Howrah'], ['Durgapur', 'Paschim Bardhaman'], ['Asansol', 'Paschim Bardhaman'], ['Siliguri', 'Darjeeling'], ['Kharagpur', 'Paschim Medinipur']] },
+  { name: 'Andaman and Nicobar Islands', aliases: ['andaman & nicobar', 'andaman'], cities: [['Port Blair', 'South Andaman']] },
+  { name: 'Chandigarh', cities: [['Chandigarh']] },
+  { name: 'Dadra and Nagar Haveli and Daman and Diu', aliases: ['dadra and nagar haveli', 'daman and diu', 'daman'], cities: [['Silvassa', 'Dadra and Nagar Haveli'], ['Daman']] },
+  { name: 'Delhi', aliases: ['new delhi', 'nct of delhi', 'ncr'], cities: [['Delhi', 'Delhi', ['new delhi']]] },
+  { name: 'Jammu and Kashmir', aliases: ['jammu & kashmir', 'j&k'], cities: [['Srinagar'], ['Jammu']] },
+  { name: 'Ladakh', cities: [['Leh']] },
+  { name: 'Lakshadweep', cities: [['Kavaratti', 'Lakshadweep']] },
+  { name: 'Puducherry', aliases: ['pondicherry'], cities: [['Puducherry', undefined, ['pondicherry']]] },
+];
+
+// PIN prefix → state, and district for the sorting districts of the major cities; longest prefix wins
+const PIN_PREFIXES: [string, string, string?][] = [
+  ['11', 'Delhi', 'Delhi'], ['12', 'Haryana'], ['13', 'Haryana'], ['14', 'Punjab'], ['15', 'Punjab'], ['16', 'Punjab'], ['160', 'Chandigarh', 'Chandigarh'],
+  ['1600', 'Punjab', 'Sahibzada Ajit Singh Nagar'], ['17', 'Himachal Pradesh'], ['18', 'Jammu and Kashmir'], ['19', 'Jammu and Kashmir'], ['194', 'Ladakh'],
+  ['20', 'Uttar Pradesh'], ['21', 'Uttar Pradesh'], ['22', 'Uttar Pradesh'], ['23', 'Uttar Pradesh'], ['24', 'Uttar Pradesh'], ['25', 'Uttar Pradesh'],
+  ['26', 'Uttar Pradesh'], ['27', 'Uttar Pradesh'], ['28', 'Uttar Pradesh'], ['246', 'Uttarakhand'], ['247', 'Uttarakhand'], ['248', 'Uttarakhand'],
+  ['249', 'Uttarakhand'], ['262', 'Uttarakhand'], ['263', 'Uttarakhand'],
+  ['30', 'Rajasthan'], ['31', 'Rajasthan'], ['32', 'Rajasthan'], ['33', 'Rajasthan'], ['34', 'Rajasthan'],
+  ['36', 'Gujarat'], ['37', 'Gujarat'], ['38', 'Gujarat'], ['39', 'Gujarat'], ['3961', 'Dadra and Nagar Haveli and Daman and Diu'],
+  ['3962', 'Dadra and Nagar Haveli and Daman and Diu'],
+  ['40', 'Maharashtra'], ['41', 'Maharashtra'], ['42', 'Maharashtra'], ['43', 'Maharashtra'], ['44', 'Maharashtra'], ['403', 'Goa'],
+  ['45', 'Madhya Pradesh'], ['46', 'Madhya Pradesh'], ['47', 'Madhya Pradesh'], ['48', 'Madhya Pradesh'], ['49', 'Chhattisgarh'],
+  ['50', 'Telangana'], ['51', 'Andhra Pradesh'], ['52', 'Andhra Pradesh'], ['53', 'Andhra Pradesh'], ['505', 'Telangana'], ['506', 'Telangana'],
+  ['507', 'Telangana'], ['508', 'Telangana'], ['509', 'Telangana'],
+  ['56', 'Karnataka'], ['57', 'Karnataka'], ['58', 'Karnataka'], ['59', 'Karnataka'],
+  ['60', 'Tamil Nadu'], ['61', 'Tamil Nadu'], ['62', 'Tamil Nadu'], ['63', 'Tamil Nadu'], ['64', 'Tamil Nadu'], ['605', 'Puducherry', 'Puducherry'],
+  ['67', 'Kerala'], ['68', 'Kerala'], ['69', 'Kerala'], ['6825', 'Lakshadweep', 'Lakshadweep'],
+  ['70', 'West Bengal'], ['71', 'West Bengal'], ['72', 'West Bengal'], ['73', 'West Bengal'], ['74', 'West Bengal'], ['737', 'Sikkim'],
+  ['744', 'Andaman and Nicobar Islands'], ['75', 'Odisha'], ['76', 'Odisha'], ['77', 'Odisha'], ['78', 'Assam'],
+  ['790', 'Arunachal Pradesh'], ['791', 'Arunachal Pradesh'], ['792', 'Arunachal Pradesh'], ['793', 'Meghalaya'], ['794', 'Meghalaya'],
+  ['795', 'Manipur'], ['796', 'Mizoram'], ['797', 'Nagaland'], ['798', 'Nagaland'], ['799', 'Tripura'],
+  ['80', 'Bihar'], ['81', 'Bihar'], ['82', 'Bihar'], ['83', 'Jharkhand'], ['84', 'Bihar'], ['85', 'Bihar'], ['814', 'Jharkhand'],
+  ['815', 'Jharkhand'], ['816', 'Jharkhand'], ['822', 'Jharkhand'], ['825', 'Jharkhand'], ['826', 'Jharkhand'], ['827', 'Jharkhand'],
+  ['828', 'Jharkhand'], ['829', 'Jharkhand'],
+  ['400', 'Maharashtra', 'Mumbai'], ['4006', 'Maharashtra', 'Thane'], ['4007', 'Maharashtra', 'Thane'], ['421', 'Maharashtra', 'Thane'],
+  ['411', 'Maharashtra', 'Pune'], ['412', 'Maharashtra', 'Pune'], ['440', 'Maharashtra', 'Nagpur'], ['422', 'Maharashtra', 'Nashik'],
+  ['431', 'Maharashtra', 'Chhatrapati Sambhajinagar'], ['416', 'Maharashtra', 'Kolhapur'],
+  ['380', 'Gujarat', 'Ahmedabad'], ['382', 'Gujarat', 'Gandhinagar'], ['394', 'Gujarat', 'Surat'], ['395', 'Gujarat', 'Surat'],
+  ['390', 'Gujarat', 'Vadodara'], ['360', 'Gujarat', 'Rajkot'], ['302', 'Rajasthan', 'Jaipur'], ['342', 'Rajasthan', 'Jodhpur'],
+  ['313', 'Rajasthan', 'Udaipur'], ['226', 'Uttar Pradesh', 'Lucknow'], ['208', 'Uttar Pradesh', 'Kanpur Nagar'],
+  ['201', 'Uttar Pradesh', 'Ghaziabad'], ['2013', 'Uttar Pradesh', 'Gautam Buddha Nagar'], ['282', 'Uttar Pradesh', 'Agra'],
+  ['221', 'Uttar Pradesh', 'Varanasi'], ['122', 'Haryana', 'Gurugram'], ['121', 'Haryana', 'Faridabad'], ['141', 'Punjab', 'Ludhiana'],
+  ['143', 'Punjab', 'Amritsar'], ['452', 'Madhya Pradesh', 'Indore'], ['462', 'Madhya Pradesh', 'Bhopal'], ['492', 'Chhattisgarh', 'Raipur'],
+  ['500', 'Telangana', 'Hyderabad'], ['560', 'Karnataka', 'Bengaluru Urban'], ['570', 'Karnataka', 'Mysuru'],
+  ['600', 'Tamil Nadu', 'Chennai'], ['641', 'Tamil Nadu', 'Coimbatore'], ['625', 'Tamil Nadu', 'Madurai'], ['638', 'Tamil Nadu', 'Erode'],
+  ['682', 'Kerala', 'Ernakulam'], ['695', 'Kerala', 'Thiruvananthapuram'], ['700', 'West Bengal', 'Kolkata'], ['711', 'West Bengal', 'Howrah'],
+  ['751', 'Odisha', 'Khordha'], ['781', 'Assam', 'Kamrup Metropolitan'], ['800', 'Bihar', 'Patna'], ['834', 'Jharkhand', 'Ranchi'],
+  ['831', 'Jharkhand', 'East Singhbhum'], ['530', 'Andhra Pradesh', 'Visakhapatnam'], ['520', 'Andhra Pradesh', 'NTR'],
+];
+
+const PIN_INDEX = new Map(PIN_PREFIXES.map(([prefix, state, district]) => [prefix, { state, district }]));
+
+// Six digits, optionally split "411 014"; the first digit is never 0
+const PINCODE_PATTERN = /(?:^|[^\d])([1-9]\d{2})\s?(\d{3})(?!\d)/;
+
+/** The PIN code in a scraped city or location value ("Pune - 411014"), if any. */
+export const parsePincode = (text?: string): string | undefined => {
+  const match = text?.match(PINCODE_PATTERN);
+  return match ? `${match[1]}${match[2]}` : undefined;
+};
+
+const regionForPincode = (pincode: string): { district?: string; state: string } | undefined => {
+  for (let length = 4; length >= 2; length--) {
+    const region = PIN_INDEX.get(pincode.slice(0, length));
+    if (region) return region;
+  }
+  return undefined;
+};
+
+export interface ResolvedLocation {
+  city?: string;
+  district?: string;
+  state?: string;
+  pincode?: string;
+  /** True when at least the state was identified from the gazetteer. */
+  resolved: boolean;
+}
+
+interface CityRecord {
+  city: string;
+  district: string;
+  state: string;
+}
+
+const normalizeName = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z&\s-]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const CITY_INDEX = new Map<string, CityRecord>();
+const DISTRICT_INDEX = new Map<string, { district: string; state: string }>();
+const STATE_INDEX = new Map<string, string>();
+
+STATES.forEach((entry) => {
+  [entry.name, ...(entry.aliases || [])].forEach((alias) => STATE_INDEX.set(normalizeName(alias), entry.name));
+  entry.cities.forEach(([city, district = city, aliases = []]) => {
+    const record = { city, district, state: entry.name };
+    [city, ...aliases].forEach((alias) => {
+      if (!CITY_INDEX.has(normalizeName(alias))) CITY_INDEX.set(normalizeName(alias), record);
+    });
+    if (!DISTRICT_INDEX.has(normalizeName(district))) {
+      DISTRICT_INDEX.set(normalizeName(district), { district, state: entry.name });
+    }
+  });
+});
+
+// Resolve scraped city/state fields (card_city, card_state) and the free-text location line
+export const resolveLocation = (input: { city?: string; state?: string; location?: string }): ResolvedLocation => {
+  const explicitState = input.state ? STATE_INDEX.get(normalizeName(input.state)) : undefined;
+  const pincode = parsePincode(input.city) || parsePincode(input.location);
+
+  // Segments are tried most-specific first: explicit city field, then comma parts from the right
+  const segments = [
+    input.city,
+    ...(input.location || '').split(/[,|/]/).reverse(),
+  ]
+    .map((segment) => normalizeName((segment || '').replace(PINCODE_PATTERN, ' ').replace(/[\s-]+$/, '')))
+    .filter(Boolean);
+
+  for (const segment of segments) {
+    const city = CITY_INDEX.get(segment);
+    // A city name shared across states (rare) only counts when it agrees with the explicit state
+    if (city && (!explicitState || explicitState === city.state)) {
+      return { ...city, pincode, resolved: true };
+    }
+    const district = DISTRICT_INDEX.get(segment);
+    if (district && (!explicitState || explicitState === district.state)) {
+      return { city: input.city, ...district, pincode, resolved: true };
+    }
+  }
+
+  // The PIN names the state (and the district around major cities) when the place name isn't in the gazetteer
+  const pinRegion = pincode ? regionForPincode(pincode) : undefined;
+  if (pinRegion && (!explicitState || explicitState === pinRegion.state)) {
+    return { city: input.city, ...pinRegion, pincode, resolved: true };
+  }
+
+  const state = explicitState || segments.map((segment) => STATE_INDEX.get(segment)).find(Boolean);
+  return { city: input.city, state, pincode, resolved: Boolean(state) };
+};
+
+export interface LocationRef {
+  /** Omitted: the name may match at any level. */
+  level?: LocationLevel;
+  name: string;
+}
+
+// Config terms look like "maharashtra", "state:maharashtra", "district:mumbai", "city:pune" or
+// "pincode:411" (any PIN starting 411); a bare number is a PIN prefix too
+export const parseLocationRef = (term: string): LocationRef => {
+  const match = term.match(/^\s*(state|district|city|pincode)\s*:\s*(.+)$/i);
+  const level = match?.[1].toLowerCase() as LocationLevel | undefined;
+  const name = match ? match[2] : term;
+  if (level === 'pincode' || (!level && /^\s*\d[\d\s]*$/.test(name))) return { level: 'pincode', name: name.replace(/\s/g, '') };
+  return { level, name: normalizeName(name) };
+};
+
+const isPincodePrefix = (value: string): boolean => /^[1-9]\d{0,5}$/.test(value);
+
+const canonicalFor = (ref: LocationRef): Partial<Record<LocationLevel, string>> => ({
+  state: STATE_INDEX.get(ref.name),
+  district: DISTRICT_INDEX.get(ref.name)?.district,
+  city: CITY_INDEX.get(ref.name)?.city,
+});
+
+export const matchesLocationRef = (location: ResolvedLocation, ref: LocationRef): boolean => {
+  if (ref.level === 'pincode') return Boolean(location.pincode && isPincodePrefix(ref.name) && location.pincode.startsWith(ref.name));
+  const canonical = canonicalFor(ref);
+  const levels: LocationLevel[] = ref.level ? [ref.level] : ['city', 'district', 'state'];
+  return levels.some((level) => {
+    const value = location[level];
+    if (!value) return false;
+    return normalizeName(value) === ref.name || value === canonical[level];
+  });
+};
+
+// Structured match when the location resolved; raw substring match only as a fallback for unknown places
+export const findLocationMatch = (
+  location: ResolvedLocation,
+  rawLocation: string,
+  terms: string[]
+): string | undefined =>
+  terms.find((term) => {
+    const ref = parseLocationRef(term);
+    if (location.resolved || ref.level === 'pincode') return matchesLocationRef(location, ref);
+    return ref.name !== '' && normalizeName(rawLocation).includes(ref.name);
+  });
+
+export const isKnownLocationTerm = (term: string): boolean => {
+  const ref = parseLocationRef(term);
+  if (ref.level === 'pincode') return isPincodePrefix(ref.name);
+  const canonical = canonicalFor(ref);
+  return ref.level ? Boolean(canonical[ref.level]) : Boolean(canonical.state || canonical.district || canonical.city);
+};
+
+export const resolvedLocationOf = (lead: { city?: string; district?: string; state?: string; pincode?: string }): ResolvedLocation => ({
+  city: lead.city,
+  district: lead.district,
+  state: lead.state,
+  pincode: lead.pincode,
+  resolved: Boolean(lead.state),
+});
@@ -0,0 +1,108 @@
+import type { FilterConfig, Lead } from '../types';
+
+export interface KeywordHit {
+  /** Configured keyword (or negative term) that matched. */
+  keyword: string;
+  /** Words in the lead text that matched it, when they differ from the keyword. */
+  matchedText?: string;
+  /** Lead field the match was found in. */
+  field: KeywordField;
+  fuzzy: boolean;
+}
+
+export type KeywordField = 'title' | 'requirement' | 'category' | 'fabric';
+
+const FUZZY_MIN_LENGTH = 5; // shorter words have too many one-edit neighbours ("coat" → "boat")
+const MAX_VARIANTS = 24;
+
+export const tokenize = (text: string): string[] => text.toLowerCase().match(/[a-z0-9\u0900-\u097f]+/g) || [];
+
+// Damerau–Levenshtein distance capped at 1: one insertion, deletion, substitution or adjacent swap
+const withinOneEdit = (a: string, b: string): boolean => {
+  if (a === b) return true;
+  if (Math.abs(a.length - b.length) > 1) return false;
+  let i = 0;
+  while (i < a.length && i < b.length && a[i] === b[i]) i++;
+  if (a.length === b.length) {
+    if (a.slice(i + 1) === b.slice(i + 1)) return true;
+    return a[i] === b[i + 1] && a[i + 1] === b[i] && a.slice(i + 2) === b.slice(i + 2);
+  }
+  return a.length > b.length ? a.slice(i + 1) === b.slice(i) : a.slice(i) === b.slice(i + 1);
+};
+
+// "uniforms"/"uniformes" match "uniform"; fuzzy matching only for longer words
+const tokenMatches = (word: string, term: string, fuzzy: boolean): { matched: boolean; fuzzy: boolean } => {
+  if (word === term || word === `${term}s` || word === `${term}es`) return { matched: true, fuzzy: false };
+  if (fuzzy && term.length >= FUZZY_MIN_LENGTH && withinOneEdit(word, term)) return { matched: true, fuzzy: true };
+  return { matched: false, fuzzy: false };
+};
+
+// Finds the phrase as consecutive whole words; returns the words that matched
+const findPhrase = (words: string[], phrase: string[], fuzzy: boolean): { text: string; fuzzy: boolean } | undefined => {
+  for (let start = 0; start + phrase.length <= words.length; start++) {
+    let usedFuzzy = false;
+    const matched = phrase.every((term, offset) => {
+      const result = tokenMatches(words[start + offset], term, fuzzy);
+      usedFuzzy = usedFuzzy || result.fuzzy;
+      return result.matched;
+    });
+    if (matched) return { text: words.slice(start, start + phrase.length).join(' '), fuzzy: usedFuzzy };
+  }
+  return undefined;
+};
+
+// Every spelling of a keyword its synonym groups allow: "nurse uniform" + [uniform, vardi] → "nurse vardi"
+export const expandSynonyms = (keyword: string, groups: string[][]): string[][] => {
+  const variants: string[][] = [tokenize(keyword)];
+  groups.forEach((group) => {
+    const members = group.map(tokenize).filter((tokens) => tokens.length > 0);
+    variants.slice().forEach((variant) => {
+      members.forEach((member) => {
+        const at = variant.findIndex((_, index) => member.every((token, offset) => variant[index + offset] === token));
+        if (at < 0) return;
+        members.forEach((replacement) => {
+          if (replacement === member || variants.length >= MAX_VARIANTS) return;
+          const next = [...variant.slice(0, at), ...replacement, ...variant.slice(at + member.length)];
+          if (!variants.some((existing) => existing.join(' ') === next.join(' '))) variants.push(next);
+        });
+      });
+    });
+  });
+  return variants;
+};
+
+const leadFields = (lead: Lead): [KeywordField, string][] => [
+  ['title', lead.enquiryTitle || ''],
+  ['requirement', lead.requirement || ''],
+  ['category', lead.category || ''],
+  ['fabric', lead.fabric || ''],
+];
+
+const findKeywordHits = (lead: Lead, keywords: string[], groups: string[][], fuzzy: boolean): KeywordHit[] => {
+  const fields = leadFields(lead).map(([field, text]) => [field, tokenize(text)] as const);
+  const hits: KeywordHit[] = [];
+  keywords.forEach((keyword) => {
+    const variants = expandSynonyms(keyword, groups);
+    for (const [field, words] of fields) {
+      // Exact spellings and synonyms win over typo matches
+      const findIn = (allowFuzzy: boolean) => variants.map((variant) => findPhrase(words, variant, allowFuzzy)).find(Boolean);
+      const found = findIn(false) || (fuzzy ? findIn(true) : undefined);
+      if (found) {
+        hits.push({ keyword, field, fuzzy: found.fuzzy, matchedText: found.text === keyword ? undefined : found.text });
+        return;
+      }
+    }
+  });
+  return hits;
+};
+
+/** Enquiry keywords found in the title, requirement, category or fabric (whole words, synonyms, optional fuzzy). */
+export const matchEnquiryKeywords = (lead: Lead, config: FilterConfig): KeywordHit[] =>
+  findKeywordHits(lead, config.enquiryKeywords, config.synonymGroups, config.fuzzyMatch);
+
+/** Negative terms found in the same fields. Never fuzzy, so a near-miss can't reject a good lead. */
+export const matchNegativeKeywords = (lead: Lead, config: FilterConfig): KeywordHit[] =>
+  findKeywordHits(lead, config.negativeKeywords, config.synonymGroups, false);
+
+export const formatKeywordHit = (hit: KeywordHit): string =>
+  `${hit.keyword}${hit.matchedText ? ` ("${hit.matchedText}"${hit.fuzzy ? ', fuzzy' : ''})` : ''} in ${hit.field}`;
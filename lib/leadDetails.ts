@@ -0,0 +1,159 @@
+import type { FilterRuleId, Lead, SelectorPack } from '../types';
+import { getTableValue, sanitize, sanitizeOptional } from './scraper';
+import { parseQuantity } from './quantity';
+import { parseRupeeRange } from './currency';
+
+// Lead detail views: the expanded card or popup behind "View details", read to enrich a lead
+// before it is filtered again. Pure DOM, like the scraper; the content script does the clicking.
+
+/** Raw text read from a lead's detail view; parsed when merged into the lead. */
+export interface LeadDetails {
+  description?: string;
+  quantity?: string;
+  fabric?: string;
+  orderValue?: string;
+  usage?: string;
+  preferredSupplierLocation?: string;
+  deliveryTimeline?: string;
+}
+
+const DETAIL_TOGGLE_TEXT = /^(?:view|show|see)\s+(?:full\s+)?(?:details?|more)\b|^(?:more\s+details|read\s+more|expand)\b/i;
+// Anything that could spend a BuyLead credit or message the buyer is never clicked
+const PURCHASE_TEXT = /contact|buy|purchase|send|reply|call|whatsapp|unlock/i;
+const CLOSE_TEXT = /^(?:close|×|✕|x|hide\s+details|show\s+less|less)$/i;
+
+// Failed rules that a fuller description, quantity table or order value could still turn around
+const ENRICHABLE_RULES: FilterRuleId[] = ['keyword', 'quantity', 'category', 'orderValue', 'minScore'];
+
+const isVisible = (el: HTMLElement): boolean =>
+  !el.hidden && el.getAttribute('aria-hidden') !== 'true' && el.style.display !== 'none' && el.style.visibility !== 'hidden';
+
+const navigates = (el: HTMLElement) => el.tagName === 'A' && !/^(?:#|javascript:|$)/i.test(el.getAttribute('href') || '');
+
+const isSafeToggle = (el: HTMLElement) =>
+  isVisible(el) && !el.hasAttribute('disabled') && !navigates(el) && !PURCHASE_TEXT.test(sanitize(el.textContent));
+
+/** The card's "View details" / expand control: pack selectors first, then any control labelled like one. */
+export const findDetailToggle = (card: Element, pack: SelectorPack): HTMLElement | null => {
+  for (const selector of pack.detail.toggles) {
+    const match = Array.from(card.querySelectorAll<HTMLElement>(selector)).find(isSafeToggle);
+    if (match) return match;
+  }
+  return (
+    Array.from(card.querySelectorAll<HTMLElement>('button, a, [role="button"], span'))
+      .find((el) => isSafeToggle(el) && DETAIL_TOGGLE_TEXT.test(sanitize(el.textContent))) || null
+  );
+};
+
+/** Visible detail panels: inside the card first (inline expansion), then anywhere on its page (popups). */
+export const listDetailPanels = (card: Element, pack: SelectorPack): HTMLElement[] => {
+  const panels: HTMLElement[] = [];
+  [card, card.ownerDocument].forEach((root) => {
+    pack.detail.panels.forEach((selector) => {
+      root.querySelectorAll<HTMLElement>(selector).forEach((panel) => {
+        if (isVisible(panel) && !panels.includes(panel)) panels.push(panel);
+      });
+    });
+  });
+  return panels;
+};
+
+/** Close button inside an open detail panel, if it has one. */
+export const findDetailClose = (panel: Element, pack: SelectorPack): HTMLElement | null => {
+  for (const selector of pack.detail.close) {
+    const match = Array.from(panel.querySelectorAll<HTMLElement>(selector)).find(isVisible);
+    if (match) return match;
+  }
+  return (
+    Array.from(panel.querySelectorAll<HTMLElement>('button, a, [role="button"], span'))
+      .find((el) => isVisible(el) && !navigates(el) && CLOSE_TEXT.test(sanitize(el.textContent || el.getAttribute('aria-label')))) || null
+  );
+};
+
+// "Usage" as a table row, a <dt>/<dd> pair or a "Usage: …" line
+const getLabelledValue = (root: Element, label: string): string | undefined => {
+  const fromTable = getTableValue(root, label);
+  if (fromTable) return fromTable;
+
+  const normalized = label.toLowerCase();
+  const term = Array.from(root.querySelectorAll('dt, th')).find((el) => sanitize(el.textContent).replace(/[:：]/g, '').toLowerCase().includes(normalized));
+  const definition = sanitizeOptional(term?.nextElementSibling?.textContent);
+  if (definition) return definition;
+
+  const pattern = new RegExp(`^\\s*${label.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\s*[:：\\-]\\s*(.+)$`, 'i');
+  for (const line of Array.from(root.querySelectorAll('li, p, div:not(:has(*))'))) {
+    const value = sanitizeOptional(sanitize(line.textContent).match(pattern)?.[1]);
+    if (value) return value;
+  }
+  return undefined;
+};
+
+/** Reads an open detail panel (or the expanded card itself). */
+export const extractLeadDetails = (panel: Element, pack: SelectorPack): LeadDetails => {
+  let description: string | undefined;
+  for (const selector of pack.detail.description) {
+    description = sanitizeOptional(panel.querySelector(selector)?.textContent?.replace(/\s+/g, ' '));
+    if (description) break;
+  }
+  const { tableLabels } = pack;
+  return {
+    description,
+    quantity: getLabelledValue(panel, tableLabels.quantity),
+    fabric: getLabelledValue(panel, tableLabels.fabric),
+    orderValue: getLabelledValue(panel, tableLabels.orderValue),
+    usage: getLabelledValue(panel, tableLabels.usage),
+    preferredSupplierLocation: getLabelledValue(panel, tableLabels.supplierLocation),
+    deliveryTimeline: getLabelledValue(panel, tableLabels.deliveryTimeline),
+  };
+};
+
+/**
+ * The lead with its detail view folded in. Detail values replace card values only when they
+ * parse; a description longer than the card's (usually truncated) requirement replaces it.
+ */
+export const mergeLeadDetails = (lead: Lead, details: LeadDetails): Lead => {
+  const merged: Lead = {
+    ...lead,
+    detailsEnriched: true,
+    description: details.description ?? lead.description,
+    usage: details.usage ?? lead.usage,
+    preferredSupplierLocation: details.preferredSupplierLocation ?? lead.preferredSupplierLocation,
+    deliveryTimeline: details.deliveryTimeline ?? lead.deliveryTimeline,
+    fabric: details.fabric ?? lead.fabric,
+  };
+  if (details.description && details.description.length > lead.requirement.length) {
+    merged.requirement = details.description;
+  }
+
+  const quantity = parseQuantity(details.quantity);
+  if (quantity.min !== undefined) {
+    merged.quantityRaw = quantity.raw;
+    merged.quantity = quantity.min;
+    merged.quantityMin = quantity.min;
+    merged.quantityMax = quantity.max;
+    merged.quantityUnit = quantity.unit;
+    merged.quantityUnitRaw = quantity.unitRaw;
+  }
+
+  const orderValue = parseRupeeRange(details.orderValue);
+  if (orderValue.min !== undefined || orderValue.max !== undefined) {
+    merged.probableOrderValueRaw = orderValue.raw;
+    merged.probableOrderValueMin = orderValue.min;
+    merged.probableOrderValueMax = orderValue.max;
+    merged.probableOrderValueConfidence = orderValue.confidence;
+  }
+  return merged;
+};
+
+/**
+ * Worth opening: the lead already qualifies (so it is contacted on the full picture), or some
+ * profile rejected it only on rules the detail view can change. Location, age and buyer badges
+ * are on the card already. Needs `filterTrace`, i.e. an annotated lead.
+ */
+export const isEnrichmentCandidate = (lead: Lead): boolean => {
+  if (lead.detailsEnriched) return false;
+  if (lead.passedFilter) return true;
+  return (lead.filterTrace || []).some((profile) =>
+    profile.rules.every((rule) => rule.passed || ENRICHABLE_RULES.includes(rule.ruleId))
+  );
+};
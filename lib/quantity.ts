@@ -0,0 +1,120 @@
+import type { FilterConfig, QuantityUnit } from '../types';
+
+export interface ParsedQuantity {
+  raw?: string;
+  /** Canonical unit after conversion (dozen → piece, gram → kilogram, ...). */
+  unit?: QuantityUnit;
+  /** Unit text as the buyer wrote it, when it was not recognised. */
+  unitRaw?: string;
+  min?: number;
+  max?: number;
+}
+
+// Alias → canonical unit and multiplier into that unit
+const UNIT_ALIASES: Record<string, { unit: QuantityUnit; factor: number }> = {
+  piece: { unit: 'piece', factor: 1 },
+  pieces: { unit: 'piece', factor: 1 },
+  pc: { unit: 'piece', factor: 1 },
+  pcs: { unit: 'piece', factor: 1 },
+  no: { unit: 'piece', factor: 1 },
+  nos: { unit: 'piece', factor: 1 },
+  number: { unit: 'piece', factor: 1 },
+  numbers: { unit: 'piece', factor: 1 },
+  unit: { unit: 'piece', factor: 1 },
+  units: { unit: 'piece', factor: 1 },
+  dozen: { unit: 'piece', factor: 12 },
+  dozens: { unit: 'piece', factor: 12 },
+  gross: { unit: 'piece', factor: 144 },
+  meter: { unit: 'meter', factor: 1 },
+  meters: { unit: 'meter', factor: 1 },
+  metre: { unit: 'meter', factor: 1 },
+  metres: { unit: 'meter', factor: 1 },
+  mtr: { unit: 'meter', factor: 1 },
+  mtrs: { unit: 'meter', factor: 1 },
+  mts: { unit: 'meter', factor: 1 },
+  m: { unit: 'meter', factor: 1 },
+  yard: { unit: 'meter', factor: 0.9144 },
+  yards: { unit: 'meter', factor: 0.9144 },
+  kg: { unit: 'kilogram', factor: 1 },
+  kgs: { unit: 'kilogram', factor: 1 },
+  kilo: { unit: 'kilogram', factor: 1 },
+  kilogram: { unit: 'kilogram', factor: 1 },
+  kilograms: { unit: 'kilogram', factor: 1 },
+  gram: { unit: 'kilogram', factor: 0.001 },
+  grams: { unit: 'kilogram', factor: 0.001 },
+  gm: { unit: 'kilogram', factor: 0.001 },
+  g: { unit: 'kilogram', factor: 0.001 },
+  quintal: { unit: 'kilogram', factor: 100 },
+  quintals: { unit: 'kilogram', factor: 100 },
+  ton: { unit: 'kilogram', factor: 1000 },
+  tons: { unit: 'kilogram', factor: 1000 },
+  tonne: { unit: 'kilogram', factor: 1000 },
+  tonnes: { unit: 'kilogram', factor: 1000 },
+  'metric ton': { unit: 'kilogram', factor: 1000 },
+  set: { unit: 'set', factor: 1 },
+  sets: { unit: 'set', factor: 1 },
+  pair: { unit: 'pair', factor: 1 },
+  pairs: { unit: 'pair', factor: 1 },
+};
+
+export const QUANTITY_UNITS: QuantityUnit[] = ['piece', 'meter', 'kilogram', 'set', 'pair', 'other'];
+
+const NUMBER = '(\\d[\\d,]*(?:\\.\\d+)?)';
+const RANGE_PATTERN = new RegExp(`${NUMBER}\\s*(?:-|–|to)\\s*${NUMBER}`, 'i');
+const SINGLE_PATTERN = new RegExp(NUMBER);
+
+const toNumber = (text: string): number | undefined => {
+  const value = Number(text.replace(/,/g, ''));
+  return Number.isFinite(value) ? value : undefined;
+};
+
+const resolveUnit = (text: string): { unit: QuantityUnit; factor: number; unitRaw?: string } | undefined => {
+  const words = text
+    .toLowerCase()
+    .replace(/\(s\)/g, '')
+    .replace(/[^a-z\s]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  if (words.length === 0) return undefined;
+  const twoWords = words.slice(0, 2).join(' ');
+  const alias = UNIT_ALIASES[twoWords] || UNIT_ALIASES[words[0]];
+  return alias || { unit: 'other', factor: 1, unitRaw: words[0] };
+};
+
+// Understands "500 Meter", "2 Dozen", "1,000 Piece(s)", "50 Kg" and ranges like "100-200 sets"
+export const parseQuantity = (value?: string | null): ParsedQuantity => {
+  if (!value) return {};
+  const raw = value.trim();
+  if (!raw) return {};
+
+  const range = raw.match(RANGE_PATTERN);
+  const single = range ? null : raw.match(SINGLE_PATTERN);
+  const match = range || single;
+  if (!match || match.index === undefined) return { raw };
+
+  const low = toNumber(match[1]);
+  const high = range ? toNumber(match[2]) : low;
+  if (low === undefined || high === undefined) return { raw };
+
+  const resolved = resolveUnit(raw.slice(match.index + match[0].length));
+  const factor = resolved?.factor ?? 1;
+  const round = (n: number) => Math.round(n * factor * 1000) / 1000;
+  return {
+    raw,
+    unit: resolved?.unit,
+    unitRaw: resolved?.unitRaw,
+    min: round(Math.min(low, high)),
+    max: round(Math.max(low, high)),
+  };
+};
+
+// Per-unit minimum when configured, otherwise the profile's general minimum
+export const quantityThresholdFor = (config: FilterConfig, unit?: QuantityUnit): number =>
+  (unit && config.minQuantityByUnit[unit]) ?? config.minQuantity;
+
+export const formatQuantity = (min?: number, max?: number, unit?: QuantityUnit, unitRaw?: string): string => {
+  if (min === undefined) return '';
+  const unitLabel = unit === 'other' ? unitRaw || '' : unit || 'units';
+  const amount = max !== undefined && max !== min ? `${min.toLocaleString('en-IN')}–${max.toLocaleString('en-IN')}` : min.toLocaleString('en-IN');
+  return `${amount} ${unitLabel}`.trim();
+};
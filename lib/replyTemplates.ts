@@ -0,0 +1,154 @@
+/// <reference types="chrome" />
+import type { Lead, ReplyTemplate, ReplyTemplateSet } from '../types';
+import { formatQuantity } from './quantity';
+
+// Reply messages written into IndiaMART's reply box before "Send Reply"; edited from the popup,
+// rendered by the background for each queued contact
+export const REPLY_TEMPLATES_KEY = 'indiamart_reply_templates';
+export const REPLY_TEMPLATES_VERSION = 1;
+
+// No templates: every reply keeps IndiaMART's pre-filled text until the user adds one
+export const DEFAULT_REPLY_TEMPLATES: ReplyTemplateSet = {
+  version: REPLY_TEMPLATES_VERSION,
+  templates: [],
+  defaultTemplateId: null,
+};
+
+export const SAMPLE_REPLY_BODY =
+  'Dear {companyName},\n\nThank you for your enquiry for {enquiryTitle}. We can supply {quantity} to {location}. ' +
+  'Please share your specifications and delivery date, and we will send our best quotation.\n\nRegards';
+
+const present = (value?: string) => (value && value !== 'N/A' ? value : undefined);
+
+/** Placeholders a template may use; a lead without the value gets the fallback wording. */
+export const REPLY_VARIABLES: Record<string, { value: (lead: Lead) => string | undefined; fallback: string }> = {
+  companyName: { value: (lead) => present(lead.companyName), fallback: 'Sir/Madam' },
+  enquiryTitle: { value: (lead) => present(lead.enquiryTitle), fallback: 'your requirement' },
+  quantity: {
+    value: (lead) =>
+      lead.quantityMin !== undefined
+        ? formatQuantity(lead.quantityMin, lead.quantityMax, lead.quantityUnit, lead.quantityUnitRaw)
+        : lead.quantityRaw,
+    fallback: 'the required quantity',
+  },
+  location: { value: (lead) => present(lead.city) || present(lead.location), fallback: 'your location' },
+  category: { value: (lead) => present(lead.category), fallback: 'your requirement' },
+};
+
+const PLACEHOLDER = /\{(\w+)\}/g;
+
+export interface ReplyTemplatesValidation {
+  templateSet?: ReplyTemplateSet;
+  errors: string[];
+}
+
+const slugify = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+
+const normalizeStrings = (value: unknown, field: string, errors: string[], lowerCase = false): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some((entry) => typeof entry !== 'string')) {
+    errors.push(`${field} must be a list of text values.`);
+    return [];
+  }
+  const entries = value.map((entry: string) => (lowerCase ? entry.trim().toLowerCase() : entry.trim())).filter(Boolean);
+  return Array.from(new Set(entries));
+};
+
+// Validates untrusted input (template editor or storage)
+export const validateReplyTemplates = (input: unknown): ReplyTemplatesValidation => {
+  if (input === undefined || input === null) {
+    return { templateSet: DEFAULT_REPLY_TEMPLATES, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Reply templates must be an object.'] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  if (!Array.isArray(raw.templates)) {
+    return { errors: ['Reply templates must include a list of templates.'] };
+  }
+
+  const ids = new Set<string>();
+  const templates: ReplyTemplate[] = [];
+  raw.templates.forEach((entry, index) => {
+    const template = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    const name = typeof template.name === 'string' ? template.name.trim() : '';
+    const body = typeof template.body === 'string' ? template.body.trim() : '';
+    if (!name) {
+      errors.push(`Template ${index + 1} needs a name.`);
+      return;
+    }
+    if (!body) {
+      errors.push(`Template "${name}" has no message.`);
+      return;
+    }
+    const unknown = Array.from(body.matchAll(PLACEHOLDER), (match) => match[1]).filter((key) => !(key in REPLY_VARIABLES));
+    if (unknown.length) {
+      errors.push(`Template "${name}" uses unknown placeholder(s) ${unknown.map((key) => `{${key}}`).join(', ')}.`);
+    }
+    // A stored id keeps the default pointing at the same template after a rename
+    let id = typeof template.id === 'string' && template.id.trim() ? template.id.trim() : slugify(name);
+    for (let n = 2; ids.has(id); n++) id = `${slugify(name)}-${n}`;
+    ids.add(id);
+    templates.push({
+      id,
+      name,
+      body,
+      categories: normalizeStrings(template.categories, `Template "${name}" categories`, errors, true),
+      profileIds: normalizeStrings(template.profileIds, `Template "${name}" profiles`, errors),
+    });
+  });
+
+  const defaultTemplateId = raw.defaultTemplateId ?? null;
+  if (defaultTemplateId !== null && !templates.some((template) => template.id === defaultTemplateId)) {
+    errors.push('The default reply template must be one of the templates.');
+  }
+
+  if (errors.length) return { errors };
+  return {
+    templateSet: { version: REPLY_TEMPLATES_VERSION, templates, defaultTemplateId: defaultTemplateId as string | null },
+    errors,
+  };
+};
+
+/** First template for the lead's category, then for its profile, then the default. */
+export const pickReplyTemplate = (lead: Lead, templateSet: ReplyTemplateSet): ReplyTemplate | undefined => {
+  const category = lead.category?.trim().toLowerCase();
+  return (
+    (category && templateSet.templates.find((template) => template.categories.includes(category))) ||
+    (lead.profileId && templateSet.templates.find((template) => template.profileIds.includes(lead.profileId!))) ||
+    templateSet.templates.find((template) => template.id === templateSet.defaultTemplateId)
+  );
+};
+
+export const renderReplyTemplate = (body: string, lead: Lead): string =>
+  body.replace(PLACEHOLDER, (placeholder, key: string) => {
+    const variable = REPLY_VARIABLES[key];
+    return variable ? variable.value(lead) || variable.fallback : placeholder;
+  });
+
+/** The reply to write for a lead, or undefined to send IndiaMART's pre-filled text. */
+export const buildReply = (lead: Lead, templateSet: ReplyTemplateSet) => {
+  const template = pickReplyTemplate(lead, templateSet);
+  return template && { templateId: template.id, templateName: template.name, message: renderReplyTemplate(template.body, lead) };
+};
+
+export const loadReplyTemplates = async (): Promise<ReplyTemplateSet> => {
+  try {
+    const result = await chrome.storage.local.get(REPLY_TEMPLATES_KEY);
+    const { templateSet, errors } = validateReplyTemplates(result[REPLY_TEMPLATES_KEY]);
+    if (templateSet) return templateSet;
+    console.warn('[IndiaMART Agent] Stored reply templates are invalid, using IndiaMART\'s pre-filled replies:', errors);
+  } catch (error) {
+    console.error('[IndiaMART Agent] Error loading reply templates:', error);
+  }
+  return DEFAULT_REPLY_TEMPLATES;
+};
+
+export const saveReplyTemplates = async (input: unknown): Promise<ReplyTemplatesValidation> => {
+  const validation = validateReplyTemplates(input);
+  if (validation.templateSet) {
+    await chrome.storage.local.set({ [REPLY_TEMPLATES_KEY]: validation.templateSet });
+  }
+  return validation;
+};
@@ -0,0 +1,73 @@
+import type { FilterConfig, Lead, ScoreComponent, ScoreSignal } from '../types';
+import { SCORE_SIGNALS } from './filterConfig';
+import { quantityThresholdFor } from './quantity';
+import { findLocationMatch, resolvedLocationOf } from './gazetteer';
+import { ageHoursAt } from './freshness';
+import { matchEnquiryKeywords } from './keywords';
+
+const FRESHNESS_HALF_LIFE_HOURS = 6; // freshness points halve every 6 hours, so just-posted leads stand out
+const UNKNOWN_SIGNAL_VALUE = 0.3; // missing data is neither rewarded nor fatal
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+// 0 at the floor, 1 at ten times the floor (log scale so huge orders don't dominate)
+const scaleAboveFloor = (value: number | undefined, floor: number, fallbackFloor: number): { value: number; detail: string } => {
+  if (!value) return { value: UNKNOWN_SIGNAL_VALUE, detail: 'not stated' };
+  const base = floor > 0 ? floor : fallbackFloor;
+  return { value: clamp01(Math.log10(value / base)), detail: `${value.toLocaleString('en-IN')} vs floor ${floor.toLocaleString('en-IN')}` };
+};
+
+const keywordSignal = (lead: Lead, config: FilterConfig): { value: number; detail: string } => {
+  const hits = matchEnquiryKeywords(lead, config);
+  if (hits.length === 0) return { value: 0, detail: 'no keyword' };
+  // Multi-word keywords ("nurse uniform") are more specific than a bare "uniform"; typo matches count for less
+  const specific = hits.some((hit) => hit.keyword.includes(' '));
+  const base = (specific ? 0.7 : 0.5) - (hits.every((hit) => hit.fuzzy) ? 0.2 : 0);
+  return { value: clamp01(base + 0.15 * (hits.length - 1)), detail: hits.map((hit) => hit.keyword).join(', ') };
+};
+
+const locationSignal = (lead: Lead, config: FilterConfig): { value: number; detail: string } => {
+  const location = (lead.location || '').toLowerCase();
+  if (!location || location === 'n/a') return { value: UNKNOWN_SIGNAL_VALUE, detail: 'unknown' };
+  const preferred = findLocationMatch(resolvedLocationOf(lead), lead.location || '', config.preferredLocations);
+  if (preferred) return { value: 1, detail: `preferred (${preferred})` };
+  return { value: 0.5, detail: 'not preferred' };
+};
+
+const categorySignal = (lead: Lead, config: FilterConfig): { value: number; detail: string } => {
+  const category = (lead.category || '').toLowerCase();
+  if (!category) return { value: 0.5, detail: 'not stated' };
+  if (config.allowedCategories.includes(category)) return { value: 1, detail: 'allowed category' };
+  return { value: config.allowedCategories.length === 0 ? 0.5 : 0, detail: 'other category' };
+};
+
+const freshnessSignal = (lead: Lead, now: number): { value: number; detail: string } => {
+  const ageHours = ageHoursAt(lead.postedAt, now);
+  if (ageHours === undefined) return { value: UNKNOWN_SIGNAL_VALUE, detail: 'age unknown' };
+  const atLeast = lead.postedAtPrecision === 'day' ? '≥ ' : '';
+  return { value: clamp01(0.5 ** (ageHours / FRESHNESS_HALF_LIFE_HOURS)), detail: `${atLeast}${ageHours.toFixed(1)} h old` };
+};
+
+export const scoreLead = (lead: Lead, config: FilterConfig, now = Date.now()): { score: number; breakdown: ScoreComponent[] } => {
+  const signals: Record<ScoreSignal, { value: number; detail: string }> = {
+    keyword: keywordSignal(lead, config),
+    quantity: scaleAboveFloor(lead.quantity, quantityThresholdFor(config, lead.quantityUnit), 10),
+    orderValue: scaleAboveFloor(lead.probableOrderValueMin || lead.probableOrderValueMax, config.minOrderValue, 10000),
+    location: locationSignal(lead, config),
+    category: categorySignal(lead, config),
+    freshness: freshnessSignal(lead, now),
+  };
+
+  const totalWeight = SCORE_SIGNALS.reduce((sum, signal) => sum + config.scoreWeights[signal], 0);
+  const breakdown = SCORE_SIGNALS.map((signal) => {
+    const weight = config.scoreWeights[signal];
+    const { value, detail } = signals[signal];
+    const points = totalWeight > 0 ? (value * weight * 100) / totalWeight : 0;
+    return { signal, weight, value: Number(value.toFixed(2)), points: Number(points.toFixed(1)), detail };
+  });
+  const score = Math.round(breakdown.reduce((sum, component) => sum + component.points, 0));
+  return { score, breakdown };
+};
+
+// Higher scores are contacted sooner: 1, 5 or 10 minutes
+export const contactDelayMinutesForScore = (score: number): number => (score >= 75 ? 1 : score >= 50 ? 5 : 10);
@@ -0,0 +1,245 @@
+import type { Lead, SelectorField, SelectorPack } from '../types';
+import { parseQuantity } from './quantity';
+import { parseRupeeRange } from './currency';
+import { resolveLocation } from './gazetteer';
+import { ageHoursAt, parsePostedAt } from './freshness';
+import { parseBuyerTrust } from './buyerTrust';
+
+// Lead-card scraping core, shared by the content script and the offline fixture replay
+
+export const sanitize = (value?: string | null): string => (value || '').trim();
+export const sanitizeOptional = (value?: string | null): string | undefined => {
+  const cleaned = sanitize(value);
+  return cleaned || undefined;
+};
+
+export const getInputValue = (root: Document | Element | ShadowRoot, selector: string): string | undefined => {
+  const input = root.querySelector<HTMLInputElement>(selector);
+  return sanitizeOptional(input?.value);
+};
+
+export const getTableValue = (root: Element, label: string): string | undefined => {
+  const normalized = label.trim().toLowerCase();
+  const rows = Array.from(root.querySelectorAll<HTMLTableRowElement>('tr'));
+  for (const row of rows) {
+    const cells = Array.from(row.querySelectorAll<HTMLTableCellElement>('td'));
+    if (!cells.length) continue;
+    const heading = sanitize(cells[0]?.textContent).replace(/[:：]/g, '').toLowerCase();
+    if (!heading) continue;
+    if (heading === normalized || heading.includes(normalized)) {
+      const valueCell = cells.slice(1).find((cell) => sanitize(cell.textContent)) || cells[1] || cells[0];
+      if (!valueCell) continue;
+      const rawValue =
+        valueCell.querySelector('b, strong')?.textContent ||
+        valueCell.textContent ||
+        '';
+      const cleaned = sanitize(rawValue.replace(/^[:：\s]+/, ''));
+      if (cleaned) {
+        return cleaned;
+      }
+    }
+  }
+  return undefined;
+};
+
+// First selector in the pack's list for this field that yields text
+export const queryField = (card: Element, field: SelectorField, pack: SelectorPack): string | undefined => {
+  for (const selector of pack.fields[field]) {
+    const text = sanitizeOptional(card.querySelector(selector)?.textContent);
+    if (text) return text;
+  }
+  return undefined;
+};
+
+// Every element matching any lead-card selector, in selector order, without duplicates
+export const findLeadCards = (
+  contexts: ParentNode[],
+  pack: SelectorPack,
+  onMatch?: (selector: string, count: number, contextIndex: number) => void
+): HTMLElement[] => {
+  const seen = new Set<HTMLElement>();
+  const cards: HTMLElement[] = [];
+  contexts.forEach((ctx, contextIndex) => {
+    pack.leadCards.forEach((selector) => {
+      const matches = Array.from(ctx.querySelectorAll<HTMLElement>(selector));
+      matches.forEach((match) => {
+        if (!seen.has(match)) {
+          seen.add(match);
+          cards.push(match);
+        }
+      });
+      if (matches.length > 0) onMatch?.(selector, matches.length, contextIndex);
+    });
+  });
+  return cards;
+};
+
+const SHOW_MORE_TEXT = /^(?:show|load|view)\s+more\b|^next(?:\s+page)?\b/i;
+
+/**
+ * Whether the page itself says it lists leads: its lead count is above zero, or a lead-list wrapper
+ * holds at least `minItems` elements. An empty category feed shows neither.
+ */
+export const pageListsLeads = (root: ParentNode, pack: SelectorPack, minItems: number): boolean => {
+  const counted = pack.resultCount
+    .flatMap((selector) => Array.from(root.querySelectorAll(selector)))
+    .some((el) => Number(sanitize(el.textContent).replace(/,/g, '').match(/\d+/)?.[0] ?? 0) > 0);
+  const listed = pack.resultList
+    .flatMap((selector) => Array.from(root.querySelectorAll(selector)))
+    .some((el) => el.children.length >= minItems);
+  return counted || listed;
+};
+
+/**
+ * The feed's "Show more" / next-page control: pack selectors first, then any button or link labelled
+ * like one. Links that would navigate away are skipped; only controls that load leads in place count.
+ */
+export const findShowMoreControl = (contexts: ParentNode[], pack: SelectorPack): HTMLElement | null => {
+  const navigates = (el: HTMLElement) => el.tagName === 'A' && !/^(?:#|javascript:|$)/i.test(el.getAttribute('href') || '');
+  const usable = (el: HTMLElement) =>
+    !el.hidden && !el.hasAttribute('disabled') && el.getAttribute('aria-disabled') !== 'true' && !navigates(el);
+  for (const ctx of contexts) {
+    for (const selector of pack.showMore) {
+      const match = Array.from(ctx.querySelectorAll<HTMLElement>(selector)).find(usable);
+      if (match) return match;
+    }
+  }
+  for (const ctx of contexts) {
+    const match = Array.from(ctx.querySelectorAll<HTMLElement>('button, a, [role="button"]'))
+      .find((el) => usable(el) && SHOW_MORE_TEXT.test(sanitize(el.textContent)));
+    if (match) return match;
+  }
+  return null;
+};
+
+/**
+ * FNV-1a hash of a card's visible text and hidden input values. Unchanged cards hash the same
+ * across scrapes, so only new or edited cards need extracting and filtering again.
+ */
+export const cardContentHash = (card: Element): string => {
+  const inputs = Array.from(card.querySelectorAll<HTMLInputElement>('input')).map((input) => `${input.name || input.id}=${input.value}`);
+  const content = `${(card.textContent || '').replace(/\s+/g, ' ').trim()}|${inputs.join('&')}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < content.length; i++) {
+    hash ^= content.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Must stay stable across reloads and re-ordering: never derive it from the card's position, nor
+// from its relative date ("2 hrs ago"), which changes as the card ages
+export const buildLeadId = (
+  card: Element,
+  pack: SelectorPack,
+  title: string,
+  companyName: string,
+  location: string,
+  requirement: string
+): string => {
+  const attrId = card.getAttribute('data-lead-id');
+  if (attrId) return attrId;
+
+  const hiddenId = getInputValue(card, pack.inputs.leadId) || getInputValue(card, pack.inputs.gridParam);
+  if (hiddenId) return hiddenId;
+
+  // Without a location, the start of the requirement tells apart one buyer's enquiries with the same title
+  const detail = location && location !== 'N/A' ? location : requirement.slice(0, 40);
+  return `${title || 'lead'}-${companyName || 'buyer'}-${detail || 'enquiry'}`.replace(/\s+/g, '-');
+};
+
+/**
+ * Reads one lead card into a `Lead`. Pure DOM: runs the same in the content script and under jsdom.
+ * `now` anchors relative dates ("2 hrs ago") and should be the capture time when replaying a snapshot.
+ */
+export const extractLead = (card: Element, index: number, pack: SelectorPack, now = Date.now()): Lead => {
+  const primaryTitle = queryField(card, 'title', pack);
+  const ofrTitle = getInputValue(card, pack.inputs.title);
+
+  const companyName = queryField(card, 'companyName', pack) || 'N/A';
+
+  const requirement =
+    queryField(card, 'requirement', pack) ||
+    ofrTitle ||
+    primaryTitle ||
+    'No requirement specified.';
+
+  const city = queryField(card, 'city', pack) || getInputValue(card, pack.inputs.city);
+  const state = queryField(card, 'state', pack) || getInputValue(card, pack.inputs.state);
+  const location =
+    queryField(card, 'location', pack) ||
+    [city, state].filter(Boolean).join(', ') ||
+    'N/A';
+  const region = resolveLocation({ city, state, location });
+
+  const offerDate = getInputValue(card, pack.inputs.offerDate);
+  const timestamp = offerDate || queryField(card, 'date', pack) || 'N/A';
+  const posted = parsePostedAt(timestamp, now);
+
+  const quantityText =
+    getTableValue(card as HTMLElement, pack.tableLabels.quantity) || queryField(card, 'quantity', pack);
+  const quantityMatch = card.textContent?.match(/Quantity\s*[:\-]?\s*([\d.,]+(?:\s*(?:-|–|to)\s*[\d.,]+)?(?:\s*[A-Za-z()]+){0,2})/i);
+  const quantityInfo = parseQuantity(quantityText || quantityMatch?.[1]);
+
+  const categoryText =
+    queryField(card, 'category', pack) ||
+    getInputValue(card, pack.inputs.category) ||
+    undefined;
+
+  let fabricElement = pack.fields.fabric.map((selector) => card.querySelector(selector)).find(Boolean) || null;
+  if (!fabricElement) {
+    const fabricLi = Array.from(card.querySelectorAll('li')).find((li) =>
+      li.textContent?.toLowerCase().includes('fabric')
+    );
+    if (fabricLi) {
+      fabricElement =
+        fabricLi.querySelector('span, strong, b') ||
+        (fabricLi as HTMLElement);
+    }
+  }
+  const fabricText = getTableValue(card as HTMLElement, pack.tableLabels.fabric) || sanitizeOptional(fabricElement?.textContent);
+
+  const orderValueText = getTableValue(card as HTMLElement, pack.tableLabels.orderValue) || queryField(card, 'orderValue', pack) || card.textContent?.match(/Probable Order Value\s*[:\-]?\s*([^\n]+)/i)?.[1];
+  const orderValueInfo = parseRupeeRange(orderValueText || undefined);
+
+  // Verification badges are often icons whose meaning is only in a tooltip or alt text
+  const badgeText = Array.from(card.querySelectorAll('[title], [alt], [aria-label], [data-tooltip]'))
+    .map((el) => el.getAttribute('title') || el.getAttribute('alt') || el.getAttribute('aria-label') || el.getAttribute('data-tooltip'))
+    .filter(Boolean)
+    .join(' | ');
+  const buyerTrust = parseBuyerTrust(`${card.textContent || ''} | ${badgeText}`, now);
+
+  const enquiryTitle = primaryTitle || ofrTitle || requirement;
+  const leadId = buildLeadId(card, pack, enquiryTitle || '', companyName, location, requirement);
+
+  return {
+    leadId,
+    companyName,
+    enquiryTitle,
+    requirement,
+    contactInfo: 'Contact info may require interaction',
+    location,
+    city: region.city,
+    district: region.district,
+    state: region.state,
+    pincode: region.pincode,
+    timestamp,
+    postedAt: posted.postedAt,
+    postedAtPrecision: posted.precision,
+    ageHours: ageHoursAt(posted.postedAt, now),
+    quantityRaw: quantityInfo.raw,
+    quantity: quantityInfo.min,
+    quantityMin: quantityInfo.min,
+    quantityMax: quantityInfo.max,
+    quantityUnit: quantityInfo.unit,
+    quantityUnitRaw: quantityInfo.unitRaw,
+    category: categoryText || undefined,
+    fabric: fabricText || undefined,
+    probableOrderValueRaw: orderValueInfo.raw,
+    probableOrderValueMin: orderValueInfo.min,
+    probableOrderValueMax: orderValueInfo.max,
+    probableOrderValueConfidence: orderValueInfo.confidence,
+    buyerTrust,
+    cardIndex: index,
+  };
+};
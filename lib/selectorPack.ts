@@ -0,0 +1,232 @@
+/// <reference types="chrome" />
+import type { SelectorDetailField, SelectorField, SelectorInputField, SelectorPack, SelectorTableField } from '../types';
+
+// Only the user's override is stored; the bundled pack ships with the extension and is merged underneath
+export const SELECTOR_PACK_OVERRIDE_KEY = 'indiamart_selector_pack_override';
+export const SELECTOR_PACK_VERSION = 1;
+
+export const DEFAULT_SELECTOR_PACK: SelectorPack = {
+  version: SELECTOR_PACK_VERSION,
+  revision: '2025.12-bltxn',
+  leadCards: [
+    'div.f1.lstNw',
+    'div.lstNw.lstNwDflx',
+    'div.lstNw.BUY_pr',
+    'div.bl-itm',
+    'div[class*="lead-card"]',
+    'li[class*="lead-card"]',
+    'div[data-card-type="lead"]',
+    '[data-testid*="lead"]',
+    '.lead-card',
+    '.blk-txn-card',
+  ],
+  shadowHosts: ['[data-shadow-host="lead"]', 'indiamart-lead-feed'],
+  showMore: ['.bl-show-more, .show-more, .load-more', 'button[class*="showMore"], a[class*="showMore"], [id*="showMore"]', '.pagination .next a, a[rel="next"]'],
+  // Tell an empty feed from a broken card selector when no cards match
+  resultCount: ['.bl-count, .result-count, [class*="totalCount"], [class*="resultCount"]'],
+  resultList: ['#bl_listing, .bl-listing, [class*="leadList"], [class*="lead-list"]'],
+  // Tried in order; the first selector with non-empty text wins
+  fields: {
+    title: ['h1, h2, h3, .bl-title, .enquiry-title'],
+    companyName: ['p.bl-compNm, .company-name', '.lstNwRgtBD .alignBox b, .lstNwRgtBD .buyer-name'],
+    requirement: ['p.bl-enq-comp, .requirement'],
+    city: ['.lstNwLftLoc .city_click'],
+    state: ['.lstNwLftLoc .state_click'],
+    location: ['li[title="Location"] span, .location'],
+    date: ['li[title="Date"] span, time, .date, .lstNwLftLoc strong'],
+    quantity: ['.bl-qty, [class*="quantity"], li[title="Quantity"], li:has(span.bl-qty)'],
+    category: ['li[title="I am interested in"], .bl-interest, .bl-category a, .bl-category span'],
+    fabric: ['[class*="fabric"], li[title="Fabric"] span'],
+    orderValue: ['li[title="Probable Order Value"], .bl-order-value, .probable-order'],
+  },
+  // Hidden inputs the portal renders per card
+  inputs: {
+    leadId: 'input[name="ofrid"], input[id^="ofrid"], input[name^="ofrid"]',
+    gridParam: 'input[name="gridParam"], input[name^="gridParam"], input[id^="gridParam"]',
+    title: 'input[name="ofrtitle"], input[id^="ofrtitle"], input[name^="ofrtitle"]',
+    city: 'input[id^="card_city"], input[name^="card_city"]',
+    state: 'input[id^="card_state"], input[name^="card_state"]',
+    offerDate: 'input[name="offerdate"], input[id^="offerdate"], input[id^="ofrdate"], input[name^="ofrdate"]',
+    category: 'input[name="mcatname"], input[id^="mcatname"], input[name^="mcatname"]',
+  },
+  // Row headings of the card's detail table (also read from the expanded detail view)
+  tableLabels: {
+    quantity: 'Quantity',
+    fabric: 'Fabric',
+    orderValue: 'Probable Order Value',
+    usage: 'Usage',
+    supplierLocation: 'Preferred Supplier Location',
+    deliveryTimeline: 'Delivery',
+  },
+  // The lead's detail view, opened by enrichment; panels are looked up in the card, then the page
+  detail: {
+    toggles: ['.bl-view-details, .view-details, [class*="viewDetail"]', '[data-action="expand"], .bl-expand'],
+    panels: ['.bl-detail, .lead-details, [class*="leadDetail"]', '[role="dialog"], .modal.show, .bl-popup'],
+    description: ['.bl-desc, .lead-description, [class*="fullDesc"]', '.bl-detail p, .lead-details p'],
+    close: ['.bl-detail-close, .close, [class*="closeBtn"]', '[aria-label="Close"], [data-dismiss="modal"]'],
+  },
+};
+
+const SELECTOR_FIELDS = Object.keys(DEFAULT_SELECTOR_PACK.fields) as SelectorField[];
+const INPUT_FIELDS = Object.keys(DEFAULT_SELECTOR_PACK.inputs) as SelectorInputField[];
+const TABLE_FIELDS = Object.keys(DEFAULT_SELECTOR_PACK.tableLabels) as SelectorTableField[];
+const DETAIL_FIELDS = Object.keys(DEFAULT_SELECTOR_PACK.detail) as SelectorDetailField[];
+
+export interface SelectorPackValidation {
+  /** Bundled pack with the override applied. */
+  pack?: SelectorPack;
+  /** Normalized override, as it should be stored. */
+  override?: Partial<SelectorPack>;
+  errors: string[];
+}
+
+// Rejects selectors the browser can't parse; skipped where there is no DOM
+const checkSelector = (selector: unknown, field: string, errors: string[]): selector is string => {
+  if (typeof selector !== 'string' || !selector.trim()) {
+    errors.push(`${field}: selectors must be non-empty text.`);
+    return false;
+  }
+  if (typeof document === 'undefined') return true;
+  try {
+    document.createDocumentFragment().querySelector(selector);
+    return true;
+  } catch {
+    errors.push(`${field}: invalid CSS selector "${selector}".`);
+    return false;
+  }
+};
+
+const selectorList = (value: unknown, field: string, errors: string[]): string[] | undefined => {
+  if (!Array.isArray(value) || value.length === 0) {
+    errors.push(`${field} must be a non-empty list of selectors.`);
+    return undefined;
+  }
+  return value.filter((selector) => checkSelector(selector, field, errors)).map((selector: string) => selector.trim());
+};
+
+// Each section of the override replaces only the keys it names
+const validateSection = <K extends string, V>(
+  value: unknown,
+  section: string,
+  keys: K[],
+  validate: (entry: unknown, field: string) => V | undefined,
+  errors: string[]
+): Partial<Record<K, V>> | undefined => {
+  if (value === undefined) return undefined;
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push(`${section} must be an object.`);
+    return undefined;
+  }
+  const result: Partial<Record<K, V>> = {};
+  Object.entries(value as Record<string, unknown>).forEach(([key, entry]) => {
+    if (!keys.includes(key as K)) {
+      errors.push(`${section}.${key} is not a known field (use ${keys.join(', ')}).`);
+      return;
+    }
+    const validated = validate(entry, `${section}.${key}`);
+    if (validated !== undefined) result[key as K] = validated;
+  });
+  return result;
+};
+
+export const validateSelectorPackOverride = (input: unknown): SelectorPackValidation => {
+  if (input === null || input === undefined) {
+    return { pack: DEFAULT_SELECTOR_PACK, override: undefined, errors: [] };
+  }
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    return { errors: ['Selector override must be a JSON object.'] };
+  }
+  const raw = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const override: Partial<SelectorPack> = {};
+
+  if (raw.version !== undefined && raw.version !== SELECTOR_PACK_VERSION) {
+    errors.push(`Selector override is for pack version ${raw.version}; this extension uses version ${SELECTOR_PACK_VERSION}.`);
+  }
+  if (raw.revision !== undefined) {
+    if (typeof raw.revision === 'string' && raw.revision.trim()) override.revision = raw.revision.trim();
+    else errors.push('revision must be non-empty text.');
+  }
+  if (raw.leadCards !== undefined) override.leadCards = selectorList(raw.leadCards, 'leadCards', errors);
+  if (raw.shadowHosts !== undefined) override.shadowHosts = selectorList(raw.shadowHosts, 'shadowHosts', errors);
+  if (raw.showMore !== undefined) override.showMore = selectorList(raw.showMore, 'showMore', errors);
+  if (raw.resultCount !== undefined) override.resultCount = selectorList(raw.resultCount, 'resultCount', errors);
+  if (raw.resultList !== undefined) override.resultList = selectorList(raw.resultList, 'resultList', errors);
+
+  const fields = validateSection(raw.fields, 'fields', SELECTOR_FIELDS, (entry, field) => selectorList(entry, field, errors), errors);
+  const inputs = validateSection(
+    raw.inputs,
+    'inputs',
+    INPUT_FIELDS,
+    (entry, field) => (checkSelector(entry, field, errors) ? entry.trim() : undefined),
+    errors
+  );
+  const tableLabels = validateSection(
+    raw.tableLabels,
+    'tableLabels',
+    TABLE_FIELDS,
+    (entry, field) => {
+      if (typeof entry === 'string' && entry.trim()) return entry.trim();
+      errors.push(`${field} must be non-empty text.`);
+      return undefined;
+    },
+    errors
+  );
+  const detail = validateSection(raw.detail, 'detail', DETAIL_FIELDS, (entry, field) => selectorList(entry, field, errors), errors);
+  const unknown = Object.keys(raw).filter(
+    (key) => !['version', 'revision', 'leadCards', 'shadowHosts', 'showMore', 'resultCount', 'resultList', 'fields', 'inputs', 'tableLabels', 'detail'].includes(key)
+  );
+  unknown.forEach((key) => errors.push(`Unknown selector pack key "${key}".`));
+  if (errors.length) return { errors };
+
+  const pack: SelectorPack = {
+    ...DEFAULT_SELECTOR_PACK,
+    revision: override.revision || `${DEFAULT_SELECTOR_PACK.revision}+custom`,
+    leadCards: override.leadCards || DEFAULT_SELECTOR_PACK.leadCards,
+    shadowHosts: override.shadowHosts || DEFAULT_SELECTOR_PACK.shadowHosts,
+    showMore: override.showMore || DEFAULT_SELECTOR_PACK.showMore,
+    resultCount: override.resultCount || DEFAULT_SELECTOR_PACK.resultCount,
+    resultList: override.resultList || DEFAULT_SELECTOR_PACK.resultList,
+    fields: { ...DEFAULT_SELECTOR_PACK.fields, ...fields },
+    inputs: { ...DEFAULT_SELECTOR_PACK.inputs, ...inputs },
+    tableLabels: { ...DEFAULT_SELECTOR_PACK.tableLabels, ...tableLabels },
+    detail: { ...DEFAULT_SELECTOR_PACK.detail, ...detail },
+  };
+  return {
+    pack,
+    override: {
+      version: SELECTOR_PACK_VERSION,
+      ...override,
+      ...(fields && { fields: fields as SelectorPack['fields'] }),
+      ...(inputs && { inputs: inputs as SelectorPack['inputs'] }),
+      ...(tableLabels && { tableLabels: tableLabels as SelectorPack['tableLabels'] }),
+      ...(detail && { detail: detail as SelectorPack['detail'] }),
+    },
+    errors,
+  };
+};
+
+export const loadSelectorPack = async (): Promise<{ pack: SelectorPack; override?: Partial<SelectorPack> }> => {
+  try {
+    const result = await chrome.storage.local.get(SELECTOR_PACK_OVERRIDE_KEY);
+    const { pack, override, errors } = validateSelectorPackOverride(result[SELECTOR_PACK_OVERRIDE_KEY]);
+    if (pack) return { pack, override };
+    console.warn('[IndiaMART Agent] Stored selector override is invalid, using the bundled pack:', errors);
+  } catch (error) {
+    console.error('[IndiaMART Agent] Error loading selector pack:', error);
+  }
+  return { pack: DEFAULT_SELECTOR_PACK };
+};
+
+// Pass null to drop the override and go back to the bundled pack
+export const saveSelectorPackOverride = async (input: unknown): Promise<SelectorPackValidation> => {
+  const validation = validateSelectorPackOverride(input);
+  if (validation.pack) {
+    if (validation.override) {
+      await chrome.storage.local.set({ [SELECTOR_PACK_OVERRIDE_KEY]: validation.override });
+    } else {
+      await chrome.storage.local.remove(SELECTOR_PACK_OVERRIDE_KEY);
+    }
+  }
+  return validation;
+};
@@ -0,0 +1,177 @@
+import type { FilterProfileSet, FixtureResult, SelectorPack } from '../types';
+import { extractLead, findLeadCards, sanitize } from './scraper';
+import { annotateLead } from './filterEngine';
+import { buildExtractionHealth } from './extractionHealth';
+
+// Page snapshots: the live lead cards, with buyer PII masked, saved as an HTML file that
+// `npm run replay` reads as a fixture. The result the agent saw is embedded next to the cards.
+
+export const SNAPSHOT_CAPTURED_AT_META = 'indiamart-agent:captured-at';
+export const SNAPSHOT_RESULT_ID = 'indiamart-agent-result';
+export const SNAPSHOT_PROFILES_ID = 'indiamart-agent-profiles';
+
+export interface SnapshotContext {
+  /** "document", "iframe#leadFrame", "shadow-root(indiamart-lead-feed)" */
+  label: string;
+  root: ParentNode;
+}
+
+export interface PageSnapshot {
+  fileName: string;
+  html: string;
+  result: FixtureResult;
+}
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+// Indian mobile numbers with an optional +91/0 prefix; longer digit runs (offer ids) are left alone
+const PHONE_PATTERN = /(?<![\w+])(?:\+?91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?!\w)/g;
+const GSTIN_PATTERN = /\b\d{2}[A-Z]{5}\d{4}[A-Z][0-9A-Z]Z[0-9A-Z]\b/gi;
+// Keeps the shape so the "GSTIN: …" trust badge still parses
+const MASKED_GSTIN = '00AAAAA0000A0Z0';
+const MASKED_EMAIL = 'buyer@example.com';
+const MASKED_PHONE = '+91-9XXXXXXXXX';
+// Hidden inputs that carry buyer details rather than offer details
+const PII_INPUT_NAME = /name|mobile|phone|email|mail|glusr|contact|address/i;
+const DROPPED_ELEMENTS = 'script, iframe, object, embed, noscript';
+// Buyer and contact-person names shown outside the company-name field
+const PERSON_NAME_SELECTORS =
+  '.buyer-name, [class*="buyerName"], [class*="buyer_name"], [class*="contact-person"], [class*="contactPerson"], [class*="contact_person"]';
+// Names in free text (requirement, tooltips): "Contact Person: Rajesh Kumar", "Buyer Name - Priya", "Mr. Anil Shah"
+const LABELLED_NAME_PATTERN = /\b(?:[Cc]ontact\s+[Pp]erson|[Bb]uyer\s+[Nn]ame|[Cc]ontact\s+[Nn]ame|[Nn]ame)\s*[:\-]\s*((?:[A-Z][\w.']*\s?){1,3})/g;
+const HONORIFIC_NAME_PATTERN = /\b(?:Mr|Mrs|Ms|Miss|Dr|Shri|Smt)\.?\s+([A-Z][a-z]+(?:\s+[A-Z][a-z]+){0,2})/g;
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const maskText = (text: string, names: Map<string, string>): string => {
+  let masked = text.replace(EMAIL_PATTERN, MASKED_EMAIL).replace(PHONE_PATTERN, MASKED_PHONE).replace(GSTIN_PATTERN, MASKED_GSTIN);
+  names.forEach((pseudonym, name) => {
+    if (name.length >= 3) masked = masked.replace(new RegExp(escapeRegExp(name), 'gi'), pseudonym);
+  });
+  return masked;
+};
+
+const addName = (raw: string | null | undefined, names: Map<string, string>) => {
+  const name = sanitize(raw);
+  if (name && !names.has(name)) names.set(name, `Buyer ${names.size + 1}`);
+};
+
+// Collected before any masking so a name is replaced in every node and attribute, not just after it was seen
+const collectFreeTextNames = (text: string, names: Map<string, string>) => {
+  [LABELLED_NAME_PATTERN, HONORIFIC_NAME_PATTERN].forEach((pattern) => {
+    Array.from(text.matchAll(pattern)).forEach((match) => addName(match[1], names));
+  });
+};
+
+const maskTextNodes = (node: Node, names: Map<string, string>) => {
+  node.childNodes.forEach((child) => {
+    if (child.nodeType === 3 /* TEXT_NODE */) {
+      child.nodeValue = maskText(child.nodeValue || '', names);
+    } else {
+      maskTextNodes(child, names);
+    }
+  });
+};
+
+/**
+ * Masks buyer PII in a detached copy of a lead card, in place. Buyer and contact-person names
+ * become stable pseudonyms ("Buyer 3") shared across cards through `names`: those in the company
+ * and person-name fields, and those labelled ("Contact Person: …") or titled ("Mr. …") in free
+ * text such as the requirement. Each is replaced wherever it appears, attributes included. Phone
+ * numbers, emails and GSTINs are replaced wherever they appear. Scripts, frames and remote image
+ * sources are dropped. Offer ids and the other hidden inputs the selector pack reads are kept as-is.
+ */
+export const maskCardPii = (card: Element, pack: SelectorPack, names: Map<string, string>): Element => {
+  card.querySelectorAll(DROPPED_ELEMENTS).forEach((el) => el.remove());
+
+  const nameFields = [...pack.fields.companyName, PERSON_NAME_SELECTORS].flatMap((selector) => Array.from(card.querySelectorAll(selector)));
+  nameFields.forEach((el) => addName(el.textContent, names));
+  [card, ...Array.from(card.querySelectorAll('*'))].forEach((el) => {
+    Array.from(el.attributes).forEach(({ value }) => collectFreeTextNames(value, names));
+  });
+  collectFreeTextNames(card.textContent || '', names);
+  nameFields.forEach((el) => {
+    const name = sanitize(el.textContent);
+    if (name) el.textContent = names.get(name)!;
+  });
+
+  const keptInputs = new Set(Object.values(pack.inputs).flatMap((selector) => Array.from(card.querySelectorAll(selector))));
+  [card, ...Array.from(card.querySelectorAll('*'))].forEach((el) => {
+    if (keptInputs.has(el)) return;
+    Array.from(el.attributes).forEach(({ name, value }) => {
+      if (name.startsWith('on') || (el.tagName === 'IMG' && (name === 'src' || name === 'srcset'))) {
+        el.removeAttribute(name);
+      } else if (name !== 'data-lead-id') {
+        el.setAttribute(name, maskText(value, names));
+      }
+    });
+    if (el.tagName === 'INPUT' && PII_INPUT_NAME.test(`${el.getAttribute('name') || ''} ${el.id}`) && el.hasAttribute('value')) {
+      el.setAttribute('value', 'masked');
+    }
+  });
+
+  maskTextNodes(card, names);
+  return card;
+};
+
+// JSON inside <script> must not be able to close the tag
+const embedJson = (id: string, value: unknown) =>
+  `<script type="application/json" id="${id}">${JSON.stringify(value, null, 2).replace(/</g, '\\u003c')}</script>`;
+
+/**
+ * Copies every lead card found in `contexts` into one masked HTML document. The embedded leads
+ * are extracted from the masked copies, so replaying the file with the same selector pack and
+ * profiles reproduces them exactly; differences then point at selector or rule changes.
+ */
+export const buildPageSnapshot = (
+  doc: Document,
+  contexts: SnapshotContext[],
+  pack: SelectorPack,
+  profileSet: FilterProfileSet,
+  sourceUrl: string,
+  now = Date.now()
+): PageSnapshot => {
+  const names = new Map<string, string>();
+  const container = doc.createElement('div');
+  contexts.forEach(({ label, root }) => {
+    const cards = findLeadCards([root], pack);
+    // A card nested in another matched card travels with its parent
+    const outermost = cards.filter((card) => !cards.some((other) => other !== card && other.contains(card)));
+    if (outermost.length === 0) return;
+    const section = doc.createElement('section');
+    section.setAttribute('data-agent-context', label);
+    outermost.forEach((card) => section.appendChild(maskCardPii(card.cloneNode(true) as Element, pack, names)));
+    container.appendChild(section);
+  });
+
+  const capturedAt = new Date(now).toISOString();
+  const fileName = `snapshot-${capturedAt.replace(/[:.]/g, '-')}.html`;
+  const leads = findLeadCards([container], pack).map((card, index) => extractLead(card, index, pack, now));
+  leads.forEach((lead) => annotateLead(lead, profileSet, now));
+  const result: FixtureResult = {
+    fixture: fileName,
+    capturedAt,
+    selectorRevision: pack.revision,
+    health: buildExtractionHealth(leads, pack.revision, now),
+    leads,
+  };
+
+  const html = [
+    '<!DOCTYPE html>',
+    `<!-- IndiaMART Agent snapshot of ${sourceUrl.replace(/--/g, '')}; buyer and contact-person names, phone numbers, emails and GSTINs are masked. Unlabelled names in free text are not; check before sharing. -->`,
+    '<html>',
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <meta name="${SNAPSHOT_CAPTURED_AT_META}" content="${capturedAt}">`,
+    '  <title>Buy Leads snapshot</title>',
+    '</head>',
+    '<body>',
+    ...Array.from(container.children).map((section) => section.outerHTML),
+    embedJson(SNAPSHOT_RESULT_ID, result),
+    embedJson(SNAPSHOT_PROFILES_ID, profileSet),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+
+  return { fileName, html, result };
+};
@@ -0,0 +1,153 @@
+import type { WorkingHours, WorkingWindow } from '../types';
+
+// Working hours: the weekly window and holidays outreach is limited to. Times are wall-clock
+// times in the schedule's own time zone, whatever zone the browser runs in.
+
+export const DEFAULT_WORKING_HOURS: WorkingHours = {
+  enabled: false,
+  timeZone: 'Asia/Kolkata',
+  days: [1, 2, 3, 4, 5, 6],
+  start: '09:30',
+  end: '19:00',
+  holidays: [],
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const toMinutes = (time: string): number => {
+  const [, hours, minutes] = time.match(TIME_PATTERN)!;
+  return Number(hours) * 60 + Number(minutes);
+};
+
+const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// Rejects impossible dates such as 2025-02-30, which Date would roll over
+const isValidDate = (date: string): boolean => {
+  const parsed = new Date(`${date}T00:00:00Z`);
+  return DATE_PATTERN.test(date) && !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date);
+};
+
+export const normalizeWorkingHours = (value: unknown, errors: string[]): WorkingHours => {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    errors.push('Working hours must be an object.');
+    return DEFAULT_WORKING_HOURS;
+  }
+  const raw = value as Record<string, unknown>;
+  const enabled = raw.enabled ?? DEFAULT_WORKING_HOURS.enabled;
+  if (typeof enabled !== 'boolean') {
+    errors.push('Working hours must be on or off.');
+  }
+
+  const timeZone = typeof raw.timeZone === 'string' ? raw.timeZone.trim() : DEFAULT_WORKING_HOURS.timeZone;
+  if (!isValidTimeZone(timeZone)) {
+    errors.push(`Unknown time zone "${timeZone}" (use an IANA name such as Asia/Kolkata).`);
+  }
+
+  const rawDays = raw.days ?? DEFAULT_WORKING_HOURS.days;
+  const days = Array.isArray(rawDays) ? Array.from(new Set(rawDays.map(Number))).sort((a, b) => a - b) : [];
+  if (!Array.isArray(rawDays) || days.some((day) => !Number.isInteger(day) || day < 0 || day > 6)) {
+    errors.push('Working days must be weekdays from 0 (Sunday) to 6 (Saturday).');
+  } else if (enabled === true && days.length === 0) {
+    errors.push('Pick at least one working day.');
+  }
+
+  const start = typeof raw.start === 'string' ? raw.start.trim() : DEFAULT_WORKING_HOURS.start;
+  const end = typeof raw.end === 'string' ? raw.end.trim() : DEFAULT_WORKING_HOURS.end;
+  if (!TIME_PATTERN.test(start) || !TIME_PATTERN.test(end)) {
+    errors.push('Working hours must be 24-hour times such as 09:30 and 19:00.');
+  } else if (toMinutes(end) <= toMinutes(start)) {
+    errors.push('Working hours must end after they start on the same day.');
+  }
+
+  const rawHolidays = raw.holidays ?? DEFAULT_WORKING_HOURS.holidays;
+  const holidays = Array.isArray(rawHolidays)
+    ? Array.from(new Set(rawHolidays.map((date) => String(date).trim()).filter(Boolean))).sort()
+    : [];
+  if (!Array.isArray(rawHolidays)) {
+    errors.push('Holidays must be a list of dates.');
+  }
+  holidays.filter((date) => !isValidDate(date)).forEach((date) => errors.push(`Holiday "${date}" is not a YYYY-MM-DD date.`));
+
+  return { enabled: enabled === true, timeZone, days, start, end, holidays };
+};
+
+const zonedParts = (at: number, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    second: 'numeric',
+  }).formatToParts(at);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value);
+  return { year: part('year'), month: part('month'), day: part('day'), hour: part('hour'), minute: part('minute'), second: part('second') };
+};
+
+// How far the zone's wall clock is ahead of UTC at an instant
+const zoneOffset = (at: number, timeZone: string): number => {
+  const p = zonedParts(at, timeZone);
+  return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - Math.floor(at / 1000) * 1000;
+};
+
+// The instant a zone's wall clock shows `minutes` past midnight on a date (given as a UTC midnight)
+const zonedInstant = (date: Date, minutes: number, timeZone: string): number => {
+  const wall = date.getTime() + minutes * 60 * 1000;
+  // Second pass settles windows next to a DST change
+  return wall - zoneOffset(wall - zoneOffset(wall, timeZone), timeZone);
+};
+
+// Midnight at the start of the day `offset` days after the one `at` falls on, in the zone
+const zonedMidnight = (at: number, timeZone: string, offset: number): number => {
+  const p = zonedParts(at, timeZone);
+  return zonedInstant(new Date(Date.UTC(p.year, p.month - 1, p.day + offset)), 0, timeZone);
+};
+
+/** Midnight starting the day `at` falls on in the time zone. */
+export const startOfZonedDay = (at: number, timeZone: string): number => zonedMidnight(at, timeZone, 0);
+
+/** The next midnight after `at` in the time zone. */
+export const startOfNextZonedDay = (at: number, timeZone: string): number => zonedMidnight(at, timeZone, 1);
+
+/**
+ * Whether outreach is open at `now`, with the current window's end or the next window's start and end.
+ * Always open when the schedule is off.
+ */
+export const workingWindow = (hours: WorkingHours, now = Date.now()): WorkingWindow => {
+  if (!hours.enabled) return { open: true };
+  const today = zonedParts(now, hours.timeZone);
+  const holidays = new Set(hours.holidays);
+  // A week beyond the listed holidays always reaches a working day
+  for (let offset = 0; offset <= 7 + hours.holidays.length; offset++) {
+    const date = new Date(Date.UTC(today.year, today.month - 1, today.day + offset));
+    if (!hours.days.includes(date.getUTCDay()) || holidays.has(date.toISOString().slice(0, 10))) continue;
+    const closesAt = zonedInstant(date, toMinutes(hours.end), hours.timeZone);
+    if (closesAt <= now) continue;
+    const opensAt = zonedInstant(date, toMinutes(hours.start), hours.timeZone);
+    return { open: opensAt <= now, opensAt, closesAt, timeZone: hours.timeZone };
+  }
+  return { open: false, timeZone: hours.timeZone };
+};
+
+/** "until 19:00" while open, "Mon 19 Oct, 09:30–19:00" for the next window; times in the schedule's zone. */
+export const formatWorkingWindow = (window: WorkingWindow): string => {
+  const format = (at: number, options: Intl.DateTimeFormatOptions) =>
+    new Date(at).toLocaleString('en-GB', { timeZone: window.timeZone, hour: '2-digit', minute: '2-digit', ...options });
+  if (window.closesAt === undefined || window.opensAt === undefined) {
+    return window.open ? 'any time' : 'no working days scheduled';
+  }
+  if (window.open) return `until ${format(window.closesAt, {})}`;
+  return `${format(window.opensAt, { weekday: 'short', day: 'numeric', month: 'short' })}–${format(window.closesAt, {})}`;
+};
@@ -0,0 +1,254 @@
+// Table-driven checks of the parsers and rules behind the scraper, filter and contact queue, run by
+// `npm run replay` before the fixtures. Each row is text as IndiaMART shows it or an instant, most of it
+// quoted in the request that added the code, and what it must come out as. A row that fails names the input, the expected and the actual value.
+import { parseQuantity } from '../lib/quantity';
+import { parseRupeeRange } from '../lib/currency';
+import { findLocationMatch, resolveLocation } from '../lib/gazetteer';
+import { parsePostedAt } from '../lib/freshness';
+import { DEFAULT_FILTER_CONFIG } from '../lib/filterConfig';
+import { formatKeywordHit, matchEnquiryKeywords, matchNegativeKeywords } from '../lib/keywords';
+import { startOfNextZonedDay, startOfZonedDay, workingWindow } from '../lib/workingHours';
+import type { Lead, WorkingHours } from '../types';
+
+type Table<I, O> = {
+  name: string;
+  run: (input: I) => O;
+  rows: [input: I, expected: O][];
+};
+
+// Key order doesn't matter; undefined properties are left out, as in stored JSON
+const canonical = (value: unknown): string =>
+  JSON.stringify(value, (_key, entry) =>
+    entry && typeof entry === 'object' && !Array.isArray(entry)
+      ? Object.fromEntries(Object.entries(entry).sort(([a], [b]) => a.localeCompare(b)))
+      : entry
+  );
+
+const runTable = <I, O>({ name, run, rows }: Table<I, O>): string[] =>
+  rows.flatMap(([input, expected]) => {
+    let actual: unknown;
+    try {
+      actual = run(input);
+    } catch (error) {
+      actual = `threw ${error instanceof Error ? error.message : String(error)}`;
+    }
+    return canonical(actual) === canonical(expected)
+      ? []
+      : [`${name} ${canonical(input)}: expected ${canonical(expected)}, got ${canonical(actual)}`];
+  });
+
+// "500 Meter", "2 Dozen", "1,000 Piece(s)", "50 Kg" and "100-200 sets" from the unit-aware quantity request
+const quantity: Table<string, ReturnType<typeof parseQuantity>> = {
+  name: 'parseQuantity',
+  run: (text) => {
+    const { raw: _raw, ...parsed } = parseQuantity(text);
+    return parsed;
+  },
+  rows: [
+    ['500 Meter', { unit: 'meter', min: 500, max: 500 }],
+    ['2 Dozen', { unit: 'piece', min: 24, max: 24 }],
+    ['1,000 Piece(s)', { unit: 'piece', min: 1000, max: 1000 }],
+    ['50 Kg', { unit: 'kilogram', min: 50, max: 50 }],
+    ['100-200 sets', { unit: 'set', min: 100, max: 200 }],
+    ['100 to 200 Pieces', { unit: 'piece', min: 100, max: 200 }],
+    ['5 Ton', { unit: 'kilogram', min: 5000, max: 5000 }],
+    ['10 Bundle', { unit: 'other', unitRaw: 'bundle', min: 10, max: 10 }],
+  ],
+};
+
+// "Rs. 1 to 2 Lakh", "₹50,000 - 1 Lakh", "Upto 5 Lakh" and "Above ₹10 Crore" from the currency request
+const rupees: Table<string, ReturnType<typeof parseRupeeRange>> = {
+  name: 'parseRupeeRange',
+  run: (text) => {
+    const { raw: _raw, ...parsed } = parseRupeeRange(text);
+    return parsed;
+  },
+  rows: [
+    ['Rs. 1 to 2 Lakh', { min: 100000, max: 200000, confidence: 'medium' }],
+    ['₹50,000 - 1 Lakh', { min: 50000, max: 100000, confidence: 'high' }],
+    ['Upto 5 Lakh', { max: 500000, confidence: 'medium' }],
+    ['Above ₹10 Crore', { min: 100000000, confidence: 'medium' }],
+    ['Rs 25,000', { min: 25000, max: 25000, confidence: 'high' }],
+    ['1.5 Cr', { min: 15000000, max: 15000000, confidence: 'high' }],
+    ['₹5 Lakh+', { min: 500000, confidence: 'medium' }],
+    ['Not specified', { confidence: 'low' }],
+  ],
+};
+
+// Place names resolve by exact name or alias, never by substring: "New Delhi Road, Pune" is in Pune
+const locations: Table<Parameters<typeof resolveLocation>[0], ReturnType<typeof resolveLocation>> = {
+  name: 'resolveLocation',
+  run: resolveLocation,
+  rows: [
+    [{ location: 'New Delhi Road, Pune' }, { city: 'Pune', district: 'Pune', state: 'Maharashtra', resolved: true }],
+    [{ city: 'Pune', state: 'Maharashtra' }, { city: 'Pune', district: 'Pune', state: 'Maharashtra', resolved: true }],
+    [{ city: 'Andheri', state: 'Mumbai' }, { city: 'Mumbai', district: 'Mumbai', state: 'Maharashtra', resolved: true }],
+    [{ location: 'Gurgaon, Haryana' }, { city: 'Gurugram', district: 'Gurugram', state: 'Haryana', resolved: true }],
+    [{ location: 'Calcutta' }, { city: 'Kolkata', district: 'Kolkata', state: 'West Bengal', resolved: true }],
+    [{ location: 'New Delhi' }, { city: 'Delhi', district: 'Delhi', state: 'Delhi', resolved: true }],
+    [{ city: 'Bhiwandi' }, { city: 'Bhiwandi', district: 'Thane', state: 'Maharashtra', resolved: true }],
+    [{ city: 'Kharadi', state: 'Maharashtra' }, { city: 'Kharadi', state: 'Maharashtra', resolved: true }],
+    [{ city: 'Pune - 411014' }, { city: 'Pune', district: 'Pune', state: 'Maharashtra', pincode: '411014', resolved: true }],
+    [{ location: 'Vashi, 400 703' }, { district: 'Thane', state: 'Maharashtra', pincode: '400703', resolved: true }],
+    [{ location: 'Dubai, UAE' }, { resolved: false }],
+  ],
+};
+
+// "Only Maharashtra except Mumbai district" and "within our delivery states", as include/exclude terms
+const locationRules: Table<[location: string, terms: string[]], string | null> = {
+  name: 'findLocationMatch',
+  run: ([location, terms]) => findLocationMatch(resolveLocation({ location }), location, terms) ?? null,
+  rows: [
+    [['New Delhi Road, Pune', ['delhi']], null],
+    [['New Delhi Road, Pune', ['state:maharashtra']], 'state:maharashtra'],
+    [['Andheri, Mumbai', ['district:mumbai']], 'district:mumbai'],
+    [['Thane, Maharashtra', ['district:mumbai']], null],
+    [['Surat, Gujarat', ['state:maharashtra', 'gujarat']], 'gujarat'],
+    [['Kharadi 411014', ['pincode:411']], 'pincode:411'],
+    [['Kharadi 411014', ['4110']], '4110'],
+    [['Dubai, UAE', ['dubai']], 'dubai'],
+  ],
+};
+
+// Card dates are read in the machine's zone, so the clock and the expected times are wall-clock times.
+// Built when the checks run, after the replay has set its zone.
+const cardClock = (): number => new Date(2025, 9, 12, 10, 0).getTime(); // Sun 12 Oct 2025, 10:00
+const wallClock = (at: number): string => {
+  const date = new Date(at);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// "2 hrs ago", "Yesterday", "12 Oct" and offerdate values from the freshness request; day-only dates
+// are the end of that day, capped at the clock
+const postedAt: Table<string, { postedAt?: string; precision?: string }> = {
+  name: 'parsePostedAt',
+  run: (text) => {
+    const parsed = parsePostedAt(text, cardClock());
+    return { postedAt: parsed.postedAt === undefined ? undefined : wallClock(parsed.postedAt), precision: parsed.precision };
+  },
+  rows: [
+    ['2 hrs ago', { postedAt: '2025-10-12 08:00', precision: 'minute' }],
+    ['30 mins ago', { postedAt: '2025-10-12 09:30', precision: 'minute' }],
+    ['an hour ago', { postedAt: '2025-10-12 09:00', precision: 'minute' }],
+    ['a few mins ago', { postedAt: '2025-10-12 09:57', precision: 'minute' }],
+    ['few hours ago', { postedAt: '2025-10-12 07:00', precision: 'minute' }],
+    ['2 hours 30 mins ago', { postedAt: '2025-10-12 07:30', precision: 'minute' }],
+    ['1 day and 4 hrs ago', { postedAt: '2025-10-11 06:00', precision: 'minute' }],
+    ['3 days ago', { postedAt: '2025-10-09 10:00', precision: 'day' }],
+    ['Just now', { postedAt: '2025-10-12 10:00', precision: 'minute' }],
+    ['Yesterday', { postedAt: '2025-10-11 23:59', precision: 'day' }],
+    ['Yesterday 4:15 PM', { postedAt: '2025-10-11 16:15', precision: 'minute' }],
+    ['Today 9:05 am', { postedAt: '2025-10-12 09:05', precision: 'minute' }],
+    ['12 Oct', { postedAt: '2025-10-12 10:00', precision: 'day' }],
+    ['10 Oct', { postedAt: '2025-10-10 23:59', precision: 'day' }],
+    ['20 Dec', { postedAt: '2024-12-20 23:59', precision: 'day' }],
+    ['12-Oct-2025', { postedAt: '2025-10-12 10:00', precision: 'day' }],
+    ['11/10/2025', { postedAt: '2025-10-11 23:59', precision: 'day' }],
+    ['2025-10-12 09:15:00', { postedAt: '2025-10-12 09:15', precision: 'minute' }],
+    ['N/A', {}],
+  ],
+};
+
+// Fixed terms rather than the editable defaults, so the rows only change when matching does
+const keywordConfig = {
+  ...DEFAULT_FILTER_CONFIG,
+  enquiryKeywords: ['uniform', 'nurse uniform'],
+  negativeKeywords: ['second hand', 'sample only', 'stitching job work', 'for resale'],
+  synonymGroups: [['uniform', 'unifrom', 'vardi']],
+  fuzzyMatch: true,
+};
+
+type KeywordFields = Partial<Pick<Lead, 'enquiryTitle' | 'requirement' | 'category' | 'fabric'>>;
+
+// Synonyms ("unifrom", "vardi"), plurals, one-letter typos and whole-word matching from the keyword
+// request; negatives are matched exactly, never fuzzily
+const keywords: Table<KeywordFields, { enquiry: string[]; negative: string[] }> = {
+  name: 'matchKeywords',
+  run: (fields) => {
+    const lead = { enquiryTitle: '', requirement: '', ...fields } as Lead;
+    return {
+      enquiry: matchEnquiryKeywords(lead, keywordConfig).map(formatKeywordHit),
+      negative: matchNegativeKeywords(lead, keywordConfig).map(formatKeywordHit),
+    };
+  },
+  rows: [
+    [{ enquiryTitle: 'School Unifrom' }, { enquiry: ['uniform ("unifrom") in title'], negative: [] }],
+    [{ enquiryTitle: 'Police Vardi' }, { enquiry: ['uniform ("vardi") in title'], negative: [] }],
+    [
+      { enquiryTitle: 'Nurse Uniforms' },
+      { enquiry: ['uniform ("uniforms") in title', 'nurse uniform ("nurse uniforms") in title'], negative: [] },
+    ],
+    [{ enquiryTitle: 'Uniforn Shirts' }, { enquiry: ['uniform ("uniforn", fuzzy) in title'], negative: [] }],
+    [{ enquiryTitle: 'Uniformity Testing Service' }, { enquiry: [], negative: [] }],
+    [{ enquiryTitle: 'Fabric', requirement: 'Need cotton for school uniform' }, { enquiry: ['uniform in requirement'], negative: [] }],
+    [{ enquiryTitle: 'Shirts', category: 'Corporate Uniform' }, { enquiry: ['uniform in category'], negative: [] }],
+    [{ enquiryTitle: 'Cloth', fabric: 'Uniform Fabric' }, { enquiry: ['uniform in fabric'], negative: [] }],
+    [{ enquiryTitle: 'Second Hand Uniforms' }, { enquiry: ['uniform ("uniforms") in title'], negative: ['second hand in title'] }],
+    [
+      { enquiryTitle: 'Uniform', requirement: 'Sample only, for resale' },
+      { enquiry: ['uniform in title'], negative: ['sample only in requirement', 'for resale in requirement'] },
+    ],
+    [
+      { enquiryTitle: 'Stitching job work for uniforms' },
+      { enquiry: ['uniform ("uniforms") in title'], negative: ['stitching job work in title'] },
+    ],
+  ],
+};
+
+const isoInstant = (at?: number): string | undefined => (at === undefined ? undefined : new Date(at).toISOString());
+
+// Mon–Sat 09:30–19:00 in India with Diwali off, from the working-hours request. Instants are UTC;
+// 09:30 IST is 04:00Z and 19:00 IST is 13:30Z.
+const SCHEDULE: WorkingHours = {
+  enabled: true,
+  timeZone: 'Asia/Kolkata',
+  days: [1, 2, 3, 4, 5, 6],
+  start: '09:30',
+  end: '19:00',
+  holidays: ['2025-10-20'],
+};
+
+const workingHours: Table<string, { open: boolean; opensAt?: string; closesAt?: string }> = {
+  name: 'workingWindow',
+  run: (at) => {
+    const { open, opensAt, closesAt } = workingWindow(SCHEDULE, Date.parse(at));
+    return { open, opensAt: isoInstant(opensAt), closesAt: isoInstant(closesAt) };
+  },
+  rows: [
+    // Sun 12 Oct, 10:00 IST: closed until Monday morning
+    ['2025-10-12T04:30:00Z', { open: false, opensAt: '2025-10-13T04:00:00.000Z', closesAt: '2025-10-13T13:30:00.000Z' }],
+    // Mon 13 Oct, 09:29 IST, 10:00 IST and 19:00 IST
+    ['2025-10-13T03:59:00Z', { open: false, opensAt: '2025-10-13T04:00:00.000Z', closesAt: '2025-10-13T13:30:00.000Z' }],
+    ['2025-10-13T04:30:00Z', { open: true, opensAt: '2025-10-13T04:00:00.000Z', closesAt: '2025-10-13T13:30:00.000Z' }],
+    ['2025-10-13T13:30:00Z', { open: false, opensAt: '2025-10-14T04:00:00.000Z', closesAt: '2025-10-14T13:30:00.000Z' }],
+    // Sat 18 Oct, 19:30 IST: Sunday and the Monday holiday are skipped
+    ['2025-10-18T14:00:00Z', { open: false, opensAt: '2025-10-21T04:00:00.000Z', closesAt: '2025-10-21T13:30:00.000Z' }],
+  ],
+};
+
+// Daily caps reset at the zone's midnight: a fixed 18:30Z the evening before in India, which has no
+// DST, and 04:00Z or 05:00Z in New York either side of its changes on 9 Mar and 2 Nov 2025
+const zonedMidnight: Table<[at: string, timeZone: string], [start?: string, next?: string]> = {
+  name: 'startOfZonedDay',
+  run: ([at, timeZone]) => [
+    isoInstant(startOfZonedDay(Date.parse(at), timeZone)),
+    isoInstant(startOfNextZonedDay(Date.parse(at), timeZone)),
+  ],
+  rows: [
+    [['2025-01-15T12:00:00Z', 'Asia/Kolkata'], ['2025-01-14T18:30:00.000Z', '2025-01-15T18:30:00.000Z']],
+    [['2025-07-15T12:00:00Z', 'Asia/Kolkata'], ['2025-07-14T18:30:00.000Z', '2025-07-15T18:30:00.000Z']],
+    [['2025-07-15T20:00:00Z', 'Asia/Kolkata'], ['2025-07-15T18:30:00.000Z', '2025-07-16T18:30:00.000Z']],
+    [['2025-03-09T12:00:00Z', 'America/New_York'], ['2025-03-09T05:00:00.000Z', '2025-03-10T04:00:00.000Z']],
+    [['2025-11-02T12:00:00Z', 'America/New_York'], ['2025-11-02T04:00:00.000Z', '2025-11-03T05:00:00.000Z']],
+  ],
+};
+
+// Rows of differing types; each table's own run and rows agree
+const TABLES: Table<any, any>[] = [quantity, rupees, locations, locationRules, postedAt, keywords, workingHours, zonedMidnight];
+
+/** Failures across every table (empty when all rows pass), with the number of rows checked. */
+export const runParserChecks = (): { rows: number; failures: string[] } => ({
+  rows: TABLES.reduce((sum, table) => sum + table.rows.length, 0),
+  failures: TABLES.flatMap(runTable),
+});
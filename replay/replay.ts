@@ -0,0 +1,231 @@
+// Offline replay: runs the scraper and filter engine on saved Seller Portal HTML under jsdom, so a
+// markup change or a rule change can be checked against real cards without logging in.
+//
+//   npm run replay -- [fixture files or directories] [--profiles profiles.json] [--selectors override.json]
+//                     [--now 2025-10-12T10:00:00Z] [--update]
+//
+// Each fixture's result is compared with `<fixture>.expected.json` when one exists; `--update` (re)writes it.
+// The parser checks in replay/checks.ts run first and fail the replay the same way.
+// Page snapshots saved from the popup embed the result the agent saw and the profiles it used,
+// which stand in for the expected file and the default profiles until those are given.
+import { existsSync, readFileSync, readdirSync, statSync, writeFileSync } from 'node:fs';
+import { basename, join, resolve } from 'node:path';
+import { JSDOM } from 'jsdom';
+import type { FilterProfileSet, FixtureResult, Lead, SelectorPack } from '../types';
+import { DEFAULT_FILTER_PROFILES, validateFilterProfiles } from '../lib/filterConfig';
+import { validateSelectorPackOverride } from '../lib/selectorPack';
+import { extractLead, findLeadCards } from '../lib/scraper';
+import { annotateLead } from '../lib/filterEngine';
+import { buildExtractionHealth, formatDegradedFields } from '../lib/extractionHealth';
+import { SNAPSHOT_CAPTURED_AT_META, SNAPSHOT_PROFILES_ID, SNAPSHOT_RESULT_ID } from '../lib/snapshot';
+import { runParserChecks } from './checks';
+
+const DEFAULT_FIXTURE_DIR = 'fixtures';
+const EXPECTED_SUFFIX = '.expected.json';
+// Fixtures record when they were captured so relative dates ("2 hrs ago") replay identically
+// Lead IDs are checked again this much later: a card's ID must not change as its date ages
+const LEAD_ID_RECHECK_MS = 26 * 60 * 60 * 1000;
+const AGED_DATE_TEXT = '1 day ago';
+const CAPTURED_AT_META = `meta[name="${SNAPSHOT_CAPTURED_AT_META}"]`;
+
+interface ReplayOptions {
+  paths: string[];
+  /** Unset: the fixture's embedded profiles, else the defaults. */
+  profileSet?: FilterProfileSet;
+  pack: SelectorPack;
+  now?: number;
+  update: boolean;
+}
+
+export interface ReplayResult extends FixtureResult {
+  /** What a page snapshot recorded at capture time, if the fixture is one. */
+  captured?: FixtureResult;
+}
+
+const fail = (message: string): never => {
+  console.error(`replay: ${message}`);
+  process.exit(2);
+};
+
+const readJson = (path: string): unknown => {
+  try {
+    return JSON.parse(readFileSync(path, 'utf8'));
+  } catch (error) {
+    return fail(`cannot read ${path}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};
+
+const parseArgs = (argv: string[]): ReplayOptions => {
+  const options: ReplayOptions = { paths: [], pack: validateSelectorPackOverride(null).pack!, update: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--update') {
+      options.update = true;
+    } else if (arg === '--profiles') {
+      // Accepts a stored profile set or a bare list of profiles
+      const raw = readJson(argv[++i] ?? fail('--profiles needs a file'));
+      const { profileSet, errors } = validateFilterProfiles(Array.isArray(raw) ? { profiles: raw } : raw);
+      options.profileSet = profileSet ?? fail(`invalid profiles: ${errors.join('; ')}`);
+    } else if (arg === '--selectors') {
+      const { pack, errors } = validateSelectorPackOverride(readJson(argv[++i] ?? fail('--selectors needs a file')));
+      options.pack = pack ?? fail(`invalid selector override: ${errors.join('; ')}`);
+    } else if (arg === '--now') {
+      const now = Date.parse(argv[++i] ?? '');
+      options.now = Number.isNaN(now) ? fail('--now needs an ISO date') : now;
+    } else if (arg.startsWith('--')) {
+      fail(`unknown option ${arg}`);
+    } else {
+      options.paths.push(arg);
+    }
+  }
+  if (options.paths.length === 0) options.paths.push(DEFAULT_FIXTURE_DIR);
+  return options;
+};
+
+const collectFixtures = (paths: string[]): string[] =>
+  paths.flatMap((path) => {
+    const full = resolve(path);
+    if (!existsSync(full)) return fail(`${path} does not exist`);
+    if (statSync(full).isDirectory()) {
+      return readdirSync(full)
+        .filter((name) => name.endsWith('.html'))
+        .sort()
+        .map((name) => join(full, name));
+    }
+    return [full];
+  });
+
+const readEmbeddedJson = (document: Document, id: string): unknown => {
+  const text = document.getElementById(id)?.textContent;
+  return text ? JSON.parse(text) : undefined;
+};
+
+export const replayFixture = (path: string, options: Pick<ReplayOptions, 'profileSet' | 'pack' | 'now'>): ReplayResult => {
+  const { document } = new JSDOM(readFileSync(path, 'utf8')).window;
+  const captured = readEmbeddedJson(document, SNAPSHOT_RESULT_ID) as FixtureResult | undefined;
+  const embeddedProfiles = readEmbeddedJson(document, SNAPSHOT_PROFILES_ID);
+  const profileSet = options.profileSet ?? (embeddedProfiles ? validateFilterProfiles(embeddedProfiles).profileSet : undefined) ?? DEFAULT_FILTER_PROFILES;
+  const capturedAt = Date.parse(document.querySelector(CAPTURED_AT_META)?.getAttribute('content') || '');
+  if (options.now === undefined && Number.isNaN(capturedAt)) {
+    console.warn(`replay: ${basename(path)} has no ${CAPTURED_AT_META}; relative dates are read as of now`);
+  }
+  const now = options.now ?? (Number.isNaN(capturedAt) ? Date.now() : capturedAt);
+
+  const leads = findLeadCards([document], options.pack).map((card, index) => extractLead(card, index, options.pack, now));
+  leads.forEach((lead) => annotateLead(lead, profileSet, now));
+  return {
+    fixture: basename(path),
+    capturedAt: new Date(now).toISOString(),
+    selectorRevision: options.pack.revision,
+    // Stable across runs: the check time is the capture time
+    health: buildExtractionHealth(leads, options.pack.revision, now),
+    leads,
+    captured,
+  };
+};
+
+// Lead IDs that come out differently when the same page is read a day later, with every card's
+// relative date ("2 hrs ago") moved on as the portal would show it
+const unstableLeadIds = (path: string, pack: SelectorPack, result: ReplayResult): string[] => {
+  const { document } = new JSDOM(readFileSync(path, 'utf8')).window;
+  const later = Date.parse(result.capturedAt) + LEAD_ID_RECHECK_MS;
+  const laterIds = findLeadCards([document], pack).map((card, index) => {
+    pack.fields.date.forEach((selector) => card.querySelectorAll(selector).forEach((el) => (el.textContent = AGED_DATE_TEXT)));
+    return extractLead(card, index, pack, later).leadId;
+  });
+  return result.leads
+    .filter((lead, index) => lead.leadId !== laterIds[index])
+    .map((lead) => `! lead ${lead.leadId} (${lead.companyName}) gets a different ID once its date reads "${AGED_DATE_TEXT}"`);
+};
+
+// Lead-level differences, keyed by leadId, naming the fields that changed
+const diffResults = (expected: FixtureResult, actual: FixtureResult): string[] => {
+  const differences: string[] = [];
+  const before = new Map(expected.leads.map((lead) => [lead.leadId, lead]));
+  const after = new Map(actual.leads.map((lead) => [lead.leadId, lead]));
+  before.forEach((lead, leadId) => {
+    if (!after.has(leadId)) differences.push(`- lead ${leadId} (${lead.companyName}) is no longer extracted`);
+  });
+  after.forEach((lead, leadId) => {
+    const old = before.get(leadId);
+    if (!old) {
+      differences.push(`+ lead ${leadId} (${lead.companyName}) is new`);
+      return;
+    }
+    const keys = new Set([...Object.keys(old), ...Object.keys(lead)] as (keyof Lead)[]);
+    const changed = [...keys].filter((key) => JSON.stringify(old[key]) !== JSON.stringify(lead[key]));
+    if (changed.length) {
+      const summary = changed
+        .filter((key) => key !== 'filterTrace' && key !== 'scoreBreakdown')
+        .map((key) => `${key}: ${JSON.stringify(old[key])} → ${JSON.stringify(lead[key])}`);
+      differences.push(`~ lead ${leadId}: ${summary.length ? summary.join(', ') : changed.join(', ')}`);
+    }
+  });
+  if (JSON.stringify(expected.health.coverage) !== JSON.stringify(actual.health.coverage)) {
+    differences.push(`~ coverage: ${JSON.stringify(expected.health.coverage)} → ${JSON.stringify(actual.health.coverage)}`);
+  }
+  return differences;
+};
+
+const main = () => {
+  // Card dates are printed in IST; read them the same way whatever the machine's zone
+  process.env.TZ = process.env.TZ || 'Asia/Kolkata';
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = collectFixtures(options.paths);
+  if (fixtures.length === 0) fail('no .html fixtures found');
+
+  const checks = runParserChecks();
+  console.log(`parser checks: ${checks.rows - checks.failures.length} of ${checks.rows} rows pass`);
+  checks.failures.forEach((line) => console.log(`  ${line}`));
+
+  let changedFixtures = 0;
+  fixtures.forEach((path) => {
+    const result = replayFixture(path, options);
+    const qualified = result.leads.filter((lead) => lead.passedFilter).length;
+    const status = result.health.healthy ? 'healthy' : `DEGRADED (${formatDegradedFields(result.health)})`;
+    console.log(`${result.fixture}: ${result.leads.length} cards, ${qualified} qualified, extraction ${status}`);
+    result.leads.forEach((lead) => {
+      const verdict = lead.passedFilter ? `PASS [${lead.profileName}] score ${lead.score}` : `FAIL ${lead.filterReason}`;
+      console.log(`  ${lead.companyName} — ${lead.enquiryTitle}: ${verdict}`);
+    });
+
+    const unstable = unstableLeadIds(path, options.pack, result);
+    if (unstable.length) {
+      changedFixtures += 1;
+      console.log('  lead IDs change as card dates age:');
+      unstable.forEach((line) => console.log(`    ${line}`));
+    }
+
+    const expectedPath = path.replace(/\.html$/, EXPECTED_SUFFIX);
+    const { captured, ...actual } = result;
+    if (options.update) {
+      writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`);
+      console.log(`  wrote ${basename(expectedPath)}`);
+      return;
+    }
+    const [expected, source] = existsSync(expectedPath)
+      ? [readJson(expectedPath) as FixtureResult, basename(expectedPath)]
+      : [captured, 'the captured result'];
+    if (!expected) return;
+    const differences = diffResults(expected, actual);
+    if (differences.length) {
+      changedFixtures += 1;
+      console.log(`  differs from ${source}:`);
+      differences.forEach((line) => console.log(`    ${line}`));
+    } else {
+      console.log(`  matches ${source}`);
+    }
+  });
+
+  if (checks.failures.length > 0) {
+    console.log(`\n${checks.failures.length} parser check(s) failed; see replay/checks.ts.`);
+  }
+  if (changedFixtures > 0) {
+    console.log(`\n${changedFixtures} fixture(s) changed or have unstable lead IDs; re-run with --update to accept changes.`);
+  }
+  if (checks.failures.length > 0 || changedFixtures > 0) {
+    process.exit(1);
+  }
+};
+
+main();
@@ -5,23 +5,417 @@ export interface Lead {
   requirement: string;
   contactInfo: string;
   location: string;
+  /** Normalized from card_city / card_state / the location line via the bundled gazetteer. */
+  city?: string;
+  district?: string;
+  state?: string;
+  /** Six-digit PIN code when the card's city or location line shows one. */
+  pincode?: string;
+  /** Date text as shown on the card ("2 hrs ago", "12 Oct", offerdate). */
   timestamp: string;
+  /** Parsed from timestamp (epoch ms); for day-only dates the latest instant of that day. */
+  postedAt?: number;
+  postedAtPrecision?: PostedAtPrecision;
+  /** Hours since postedAt when the lead was last scraped. */
+  ageHours?: number;
   quantityRaw?: string;
+  /** Lower bound in the canonical unit (the guaranteed quantity); kept for existing rules. */
   quantity?: number;
+  quantityMin?: number;
+  quantityMax?: number;
+  quantityUnit?: QuantityUnit;
+  /** Buyer's unit text when it isn't one we recognise. */
+  quantityUnitRaw?: string;
   category?: string;
   fabric?: string;
   probableOrderValueRaw?: string;
   probableOrderValueMin?: number;
   probableOrderValueMax?: number;
+  /** How sure the parser is about min/max (open-ended ranges and inferred units are "medium"). */
+  probableOrderValueConfidence?: OrderValueConfidence;
+  /** Buyer-quality badges shown on the card. */
+  buyerTrust?: BuyerTrust;
+  /** From the lead's detail view, when enrichment opened it; `requirement` then holds the full text. */
+  description?: string;
+  usage?: string;
+  preferredSupplierLocation?: string;
+  deliveryTimeline?: string;
+  detailsEnriched?: boolean;
+  /** Configured feed the lead was scraped from ("unlisted" for other Buy Leads pages). */
+  sourceFeedId?: string;
+  sourceFeedLabel?: string;
   cardIndex?: number;
   passedFilter?: boolean;
   filterReason?: string;
+  /** Filter profile that qualified this lead (first active match). */
+  profileId?: string;
+  profileName?: string;
   nextContactDelayMinutes?: number;
+  /** Weighted score 0–100; orders and paces contacts among qualified leads. */
+  score?: number;
+  scoreBreakdown?: ScoreComponent[];
+  /** Every rule of every active profile, evaluated without short-circuiting. */
+  filterTrace?: ProfileTrace[];
   autoContacted?: boolean;
   contactedAt?: string;
+  /** Reply template used for the contact, and the message as it was sent. */
+  replyTemplateId?: string;
+  replyTemplateName?: string;
+  replyMessage?: string;
+}
+
+/** Undefined fields mean the card didn't show that badge. */
+export interface BuyerTrust {
+  mobileVerified?: boolean;
+  emailVerified?: boolean;
+  gstRegistered?: boolean;
+  /** As shown, e.g. "3 Years" or "Jan 2019". */
+  memberSince?: string;
+  membershipMonths?: number;
+  /** "Buyer has purchased X times". */
+  purchaseCount?: number;
+  /** Sellers who have already contacted this lead. */
+  sellersContacted?: number;
 }
 
 export interface QualifiedLead extends Lead {
   tabId: number;
   nextContactTime: number;
 }
+
+/** `failed` entries were given up on (or dismissed); `dead_letter` ones wait for the user to retry or dismiss. */
+export type ContactQueueStatus = 'pending' | 'in_progress' | 'done' | 'failed' | 'dead_letter';
+
+/** Why a contact attempt failed; transient reasons are retried with backoff. */
+export type ContactFailureReason =
+  | 'card_not_found'
+  | 'lead_mismatch'
+  | 'contact_button_missing'
+  | 'reply_button_missing'
+  | 'reply_box_unavailable'
+  | 'refused'
+  | 'interrupted'
+  | 'unknown';
+
+/** What the page showed after "Send Reply"; only confirmed contacts are counted. */
+export type ContactOutcome = 'confirmed' | 'unconfirmed' | 'failed';
+
+export interface ContactQueueEntry {
+  leadId: string;
+  dueAt: number;
+  attempts: number;
+  status: ContactQueueStatus;
+  enqueuedAt: number;
+  lead: Lead;
+  lastError?: string;
+  failureReason?: ContactFailureReason;
+  completedAt?: number;
+  /** When Contact Buyer Now was clicked, once per attempt that got that far. Each click spends a credit. */
+  clickedAt?: number[];
+  /** Set once the contact ran: done entries are confirmed or unconfirmed, failed ones failed. */
+  outcome?: ContactOutcome;
+  /** The confirmation seen, or why the outcome is unconfirmed or failed. */
+  outcomeDetail?: string;
+}
+
+export interface ContactQueueSummary {
+  pending: number;
+  nextDueAt?: number;
+  /** Contacts that ran out of retries, waiting in the popup. */
+  deadLetters?: number;
+}
+
+export interface FilterConfig {
+  version: number;
+  /** At least one must appear as whole words in the title, requirement, category or fabric. */
+  enquiryKeywords: string[];
+  /** Leads mentioning any of these ("second hand", "for resale") are rejected. */
+  negativeKeywords: string[];
+  /** Interchangeable spellings, e.g. ["uniform", "unifrom", "vardi"]; applied to both keyword lists. */
+  synonymGroups: string[][];
+  /** Let enquiry keywords of 5+ letters match words one typo away. */
+  fuzzyMatch: boolean;
+  /** Leads located in any of these are rejected. Terms may be pinned to a level: "state:…", "district:…", "city:…", "pincode:…" (a PIN prefix). */
+  excludedLocations: string[];
+  /** When non-empty, leads must be located in one of these (same syntax as excludedLocations). */
+  includedLocations: string[];
+  /** Location fragments that mark a lead as foreign (rejected). */
+  foreignIndicators: string[];
+  /** Quantity must be strictly greater than this (units without their own minimum). */
+  minQuantity: number;
+  /** Per-unit minimums, e.g. pieces > 100, meters > 500. */
+  minQuantityByUnit: Partial<Record<QuantityUnit, number>>;
+  /** Exact category names; a lead without a category is not rejected. Empty list allows all. */
+  allowedCategories: string[];
+  /** Probable order value (₹) must be strictly greater than this. */
+  minOrderValue: number;
+  /** Locations that earn the full location-tier score. */
+  preferredLocations: string[];
+  /** Relative weight of each scoring signal (0 disables a signal). */
+  scoreWeights: Record<ScoreSignal, number>;
+  /** Leads that pass every hard rule still need at least this score (0–100). */
+  minScore: number;
+  /** Leads posted more than this many hours ago are rejected (0 = no limit). */
+  maxAgeHours: number;
+  /** Buyer must show these badges; a badge missing from the card counts as not verified. */
+  requireVerifiedMobile: boolean;
+  requireVerifiedEmail: boolean;
+  requireGst: boolean;
+  /** Buyer membership must be at least this many months when shown (0 = any). */
+  minMembershipMonths: number;
+  /** Skip leads more sellers than this have already contacted (null = no limit). */
+  maxSellersContacted: number | null;
+}
+
+export type LocationLevel = 'state' | 'district' | 'city' | 'pincode';
+
+export type PostedAtPrecision = 'minute' | 'day';
+
+export type OrderValueConfidence = 'high' | 'medium' | 'low';
+
+export type QuantityUnit = 'piece' | 'meter' | 'kilogram' | 'set' | 'pair' | 'other';
+
+export type ScoreSignal = 'keyword' | 'quantity' | 'orderValue' | 'location' | 'category' | 'freshness';
+
+export interface ScoreComponent {
+  signal: ScoreSignal;
+  weight: number;
+  /** Signal strength from 0 to 1. */
+  value: number;
+  /** Contribution to the 0–100 score. */
+  points: number;
+  detail: string;
+}
+
+/** A named rule set; a lead is tagged with the first active profile it passes. */
+export interface FilterProfile extends FilterConfig {
+  id: string;
+  name: string;
+  active: boolean;
+  /** When false, matching leads are tagged and logged but never auto-contacted. */
+  autoContact: boolean;
+  /** Contacts per calendar day for leads this profile qualified (0 = no cap). */
+  dailyContactCap: number;
+}
+
+export interface FilterProfileSet {
+  version: number;
+  profiles: FilterProfile[];
+}
+
+export interface ProfileStats {
+  profileName: string;
+  filtered: number;
+  contacted: number;
+}
+
+/** Session yield of one lead feed: distinct leads seen and qualified there, and contacts made from it. */
+export interface FeedStats {
+  label: string;
+  seen: number;
+  qualified: number;
+  contacted: number;
+}
+
+export type FilterRuleId =
+  | 'keyword'
+  | 'negativeKeyword'
+  | 'includedLocation'
+  | 'excludedLocation'
+  | 'foreignLocation'
+  | 'quantity'
+  | 'category'
+  | 'orderValue'
+  | 'age'
+  | 'buyerVerification'
+  | 'buyerMembership'
+  | 'sellersContacted'
+  | 'minScore';
+
+export interface RuleTraceEntry {
+  ruleId: FilterRuleId;
+  passed: boolean;
+  /** What the rule saw on the lead, as displayed. */
+  value: string;
+  /** What the rule required, as displayed. */
+  threshold: string;
+  /** Rejection message when the rule failed. */
+  reason?: string;
+}
+
+export interface ProfileTrace {
+  profileId: string;
+  profileName: string;
+  passed: boolean;
+  score: number;
+  rules: RuleTraceEntry[];
+}
+
+export type SelectorField =
+  | 'title'
+  | 'companyName'
+  | 'requirement'
+  | 'city'
+  | 'state'
+  | 'location'
+  | 'date'
+  | 'quantity'
+  | 'category'
+  | 'fabric'
+  | 'orderValue';
+
+export type SelectorInputField = 'leadId' | 'gridParam' | 'title' | 'city' | 'state' | 'offerDate' | 'category';
+
+export type SelectorTableField = 'quantity' | 'fabric' | 'orderValue' | 'usage' | 'supplierLocation' | 'deliveryTimeline';
+
+/** Selectors for opening, reading and closing a lead's detail view. */
+export type SelectorDetailField = 'toggles' | 'panels' | 'description' | 'close';
+
+/** CSS selectors the scraper uses, versioned so a user override can be checked against the bundled pack. */
+export interface SelectorPack {
+  version: number;
+  /** Identifies the pack contents, e.g. "2025.10-bltxn" or "…+custom" when overridden. */
+  revision: string;
+  leadCards: string[];
+  shadowHosts: string[];
+  /** "Show more" / next-page controls of the lead feed, used when harvesting below the fold. */
+  showMore: string[];
+  /** The page's own lead count ("245 results"); above zero means cards should have matched. */
+  resultCount: string[];
+  /** Wrappers of the lead list; one holding several elements means cards should have matched. */
+  resultList: string[];
+  fields: Record<SelectorField, string[]>;
+  inputs: Record<SelectorInputField, string>;
+  tableLabels: Record<SelectorTableField, string>;
+  detail: Record<SelectorDetailField, string[]>;
+}
+
+export type HealthField = 'companyName' | 'enquiryTitle' | 'location' | 'timestamp' | 'quantity' | 'category' | 'orderValue';
+
+/** Share of scraped cards with each field extracted, for one scrape. */
+export interface ExtractionHealth {
+  checkedAt: number;
+  selectorRevision: string;
+  cards: number;
+  /** 0–1 per field. */
+  coverage: Record<HealthField, number>;
+  healthy: boolean;
+  /** Critical fields below the threshold. */
+  degradedFields: HealthField[];
+}
+
+
+/** What the scraper and filters made of one fixture; compared by `npm run replay`. */
+export interface FixtureResult {
+  fixture: string;
+  capturedAt: string;
+  selectorRevision: string;
+  health: ExtractionHealth;
+  leads: Lead[];
+}
+
+/** A Buy Leads page the agent cycles through, e.g. the "relevant" or "recent" feed or a category URL. */
+export interface LeadFeed {
+  id: string;
+  label: string;
+  url: string;
+  enabled: boolean;
+}
+
+/**
+ * When outreach is allowed: one daily window on the chosen weekdays, in the schedule's time zone,
+ * except on listed holidays. Outside it leads are still scraped and queued, but not contacted.
+ */
+export interface WorkingHours {
+  enabled: boolean;
+  /** IANA time zone the window and holidays are read in, e.g. 'Asia/Kolkata'. */
+  timeZone: string;
+  /** 0 = Sunday … 6 = Saturday. */
+  days: number[];
+  /** 'HH:MM', 24-hour; the window ends before `end`. */
+  start: string;
+  end: string;
+  /** 'YYYY-MM-DD' dates with no outreach. */
+  holidays: string[];
+}
+
+/** Whether outreach is open now, and when the current or next window starts and ends. */
+export interface WorkingWindow {
+  open: boolean;
+  opensAt?: number;
+  closesAt?: number;
+  /** The schedule's time zone, for showing the window; absent when no schedule applies. */
+  timeZone?: string;
+}
+
+/** How the content script notices new leads: watch the feed in place, or reload the page on a timer. */
+export type LeadDetectionMode = 'incremental' | 'reload';
+
+export interface AgentSettings {
+  version: number;
+  detectionMode: LeadDetectionMode;
+  /** Incremental mode reloads the page only after this long without a new lead. */
+  quietReloadMinutes: number;
+  /** Scroll / "Show more" steps taken below the fold after each page load; 0 turns harvesting off. */
+  harvestDepth: number;
+  /** Harvesting stops at leads older than this; 0 = no age limit. */
+  harvestMaxAgeHours: number;
+  /** Enabled feeds are visited in turn; the first enabled one is opened on start. */
+  feeds: LeadFeed[];
+  /** Time on each feed before moving to the next (only with two or more enabled). */
+  feedRotationMinutes: number;
+  /** Open the detail view of leads a fuller picture could qualify, then filter them again. */
+  enrichDetails: boolean;
+  /** Detail views opened per pass, one at a time. */
+  enrichMaxPerPass: number;
+  /** Attempts per contact, the first included, before a transient failure goes to the dead-letter list. */
+  contactMaxAttempts: number;
+  /** Wait before the first retry; doubles with each further attempt. */
+  contactRetryMinutes: number;
+  /** Contact budget across all profiles (0 = no cap); days follow the working-hours time zone. */
+  maxContactsPerHour: number;
+  maxContactsPerDay: number;
+  /** Stop contacting when the BuyLead credits shown in the portal header fall to this many. */
+  minCreditReserve: number;
+  workingHours: WorkingHours;
+}
+
+/** Latest BuyLead credit balance read from the Seller Portal header. */
+export interface CreditBalance {
+  credits: number;
+  checkedAt: number;
+}
+
+/** Where auto-contact stands against its caps and the credit reserve; shown in the popup. */
+export interface ContactBudgetStatus {
+  contactsLastHour: number;
+  contactsToday: number;
+  maxContactsPerHour: number;
+  maxContactsPerDay: number;
+  credits?: CreditBalance;
+  minCreditReserve: number;
+  /** Contacts today and the cap, per profile with a cap. */
+  byProfile: Record<string, { profileName: string; contactsToday: number; cap: number }>;
+  /** Set while no contact may go out at all. */
+  pausedReason?: string;
+  /** When the pause lifts by itself (hour window or day rolls over); absent for low credits. */
+  resumesAt?: number;
+}
+
+/** Reply text with {placeholders}, e.g. "Dear {companyName}, we can supply {quantity} …". */
+export interface ReplyTemplate {
+  id: string;
+  name: string;
+  body: string;
+  /** Used for leads in these categories (exact, case-insensitive); checked before profiles. */
+  categories: string[];
+  /** Used for leads qualified by these filter profiles. */
+  profileIds: string[];
+}
+
+export interface ReplyTemplateSet {
+  version: number;
+  templates: ReplyTemplate[];
+  /** Used when no category or profile matches; null keeps IndiaMART's pre-filled reply. */
+  defaultTemplateId: string | null;
+}
@@ -7,31 +7,67 @@ import { fileURLToPath } from 'url';
 // Fix: Define `__dirname` which is not available in ES modules by default.
 const __dirname = fileURLToPath(new URL('.', import.meta.url));
 
+// MV3 content scripts and the (non-module) service worker can't load shared chunks,
+// so each is built in its own pass (`--mode content` / `--mode background`) as a single IIFE.
+const SCRIPT_ENTRIES: Record<string, { entry: string; name: string }> = {
+  content: { entry: 'content.ts', name: 'IndiaMartAgentContent' },
+  background: { entry: 'background.ts', name: 'IndiaMartAgentBackground' },
+};
+
 // https://vitejs.dev/config/
-export default defineConfig({
-  plugins: [react()],
-  build: {
-    outDir: 'dist',
-    rollupOptions: {
-      input: {
-        popup: resolve(__dirname, 'index.html'),
-        background: resolve(__dirname, 'background.ts'),
-        content: resolve(__dirname, 'content.ts'),
+export default defineConfig(({ mode }) => {
+  // Node build of the offline fixture replay (`npm run replay`); jsdom stays an external import
+  if (mode === 'replay') {
+    return {
+      build: {
+        outDir: 'dist-replay',
+        emptyOutDir: true,
+        ssr: resolve(__dirname, 'replay/replay.ts'),
+        rollupOptions: {
+          output: { entryFileNames: 'replay.js' },
+        },
+        minify: false,
       },
-      output: {
-        entryFileNames: (chunkInfo) => {
-            // Keep background and content script names static for the manifest
-            if (chunkInfo.name === 'background' || chunkInfo.name === 'content') {
-                return '[name].js';
-            }
-            // Use default hashed names for other assets
-            return 'assets/[name]-[hash].js';
+      publicDir: false,
+    };
+  }
+
+  const script = SCRIPT_ENTRIES[mode];
+  if (script) {
+    return {
+      build: {
+        outDir: 'dist',
+        // The popup pass runs first and owns the clean-up of dist/
+        emptyOutDir: false,
+        lib: {
+          entry: resolve(__dirname, script.entry),
+          name: script.name,
+          formats: ['iife'],
+          fileName: () => `${mode}.js`,
         },
-      }
+        minify: false,
+      },
+      publicDir: false,
+    };
+  }
+
+  return {
+    plugins: [react()],
+    build: {
+      outDir: 'dist',
+      rollupOptions: {
+        input: {
+          popup: resolve(__dirname, 'index.html'),
+        },
+        output: {
+          // Use default hashed names for popup assets
+          entryFileNames: 'assets/[name]-[hash].js',
+        }
+      },
+      // Set to false to disable minification for easier debugging and to prevent variable name collisions
+      minify: false, 
     },
-    // Set to false to disable minification for easier debugging and to prevent variable name collisions
-    minify: false, 
-  },
-  // This ensures files in the public directory are copied to the dist folder
-  publicDir: 'public',
+    // This ensures files in the public directory are copied to the dist folder
+    publicDir: 'public',
+  };
 })